@@ -0,0 +1,136 @@
+/**
+ * AI Provider Module
+ *
+ * Defines the provider abstraction used by AIService and the registry that maps
+ * provider names (the `codeQuizExplainer.aiProvider` setting) to implementations.
+ * Built-in providers register themselves from `providers/`; other extensions can
+ * register their own through the API returned by `activate()`.
+ */
+
+import * as vscode from 'vscode';
+
+/**
+ * The kinds of requests AIService sends to a provider
+ */
+export type AITask = 'quiz' | 'explanation' | 'clarification' | 'shortAnswer' | 'codeModification';
+
+export interface AIChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface AICompletionRequest {
+    task: AITask;
+    messages: AIChatMessage[];
+    model?: string; // Overrides the provider's configured model
+    temperature?: number;
+    maxTokens?: number;
+    timeout?: number; // Milliseconds
+    json?: boolean; // The reply must be a JSON document
+    source?: unknown; // The original AIService request; lets offline providers build a reply
+    signal?: AbortSignal; // Aborts the request when the user cancels
+}
+
+export interface AICompletionResponse {
+    content: string;
+    model?: string;
+    usage?: {
+        promptTokens?: number;
+        completionTokens?: number;
+    };
+}
+
+export interface AIProvider {
+    readonly id: string;
+    readonly label: string; // Human-readable name used in messages
+    readonly model?: string;
+
+    /**
+     * Whether the provider has everything it needs (keys, endpoints) to serve requests
+     */
+    isConfigured(): boolean;
+
+    /**
+     * Run a chat completion and return the reply text
+     */
+    complete(request: AICompletionRequest): Promise<AICompletionResponse>;
+
+    /**
+     * Optional streaming variant of `complete`; `onText` receives each text delta
+     * and the resolved response carries the full reply
+     */
+    stream?(request: AICompletionRequest, onText: (delta: string) => void): Promise<AICompletionResponse>;
+}
+
+/**
+ * Whether an error came from an aborted request (user cancellation) rather than a failure
+ */
+export function isCancellationError(error: any): boolean {
+    return !!error && (
+        error.name === 'AbortError' ||
+        error.name === 'CanceledError' ||
+        error.name === 'APIUserAbortError' ||
+        error.code === 'ERR_CANCELED'
+    );
+}
+
+/**
+ * API keys by provider id, resolved from secret storage and environment variables
+ */
+export type AIApiKeys = Partial<Record<string, string>>;
+
+/**
+ * Builds a provider from the current `codeQuizExplainer` settings and stored API keys
+ */
+export type AIProviderFactory = (settings: vscode.WorkspaceConfiguration, apiKeys: AIApiKeys) => AIProvider;
+
+/**
+ * Public API returned from `activate()` for other extensions
+ */
+export interface CodeQuizExplainerAPI {
+    registerAIProvider(id: string, factory: AIProviderFactory): vscode.Disposable;
+}
+
+export class AIProviderRegistry {
+    private factories = new Map<string, AIProviderFactory>();
+    private changeEmitter = new vscode.EventEmitter<string>();
+
+    /**
+     * Fires with the provider id whenever a provider is registered or removed
+     */
+    readonly onDidChange = this.changeEmitter.event;
+
+    /**
+     * Register a provider under a name; returns a disposable that unregisters it
+     */
+    register(id: string, factory: AIProviderFactory): vscode.Disposable {
+        if (this.factories.has(id)) {
+            throw new Error(`AI provider "${id}" is already registered`);
+        }
+
+        this.factories.set(id, factory);
+        this.changeEmitter.fire(id);
+        console.log('🤖 AI provider registered:', id);
+
+        return new vscode.Disposable(() => {
+            if (this.factories.get(id) === factory) {
+                this.factories.delete(id);
+                this.changeEmitter.fire(id);
+            }
+        });
+    }
+
+    /**
+     * Create the provider registered under `id`, or undefined if none is
+     */
+    create(id: string, settings: vscode.WorkspaceConfiguration, apiKeys: AIApiKeys = {}): AIProvider | undefined {
+        const factory = this.factories.get(id);
+        return factory ? factory(settings, apiKeys) : undefined;
+    }
+
+    has(id: string): boolean {
+        return this.factories.has(id);
+    }
+}
+
+export const providerRegistry = new AIProviderRegistry();
@@ -2,17 +2,68 @@
  * AI Service Module
  * 
  * This module handles AI integration for quiz generation and code explanation.
- * Supports multiple AI providers: OpenAI, Anthropic, local models, etc.
+ * Requests go through the provider registered under `codeQuizExplainer.aiProvider`
+ * (OpenAI, Anthropic, local models, mock, or a provider from another extension).
  */
 
-import OpenAI from 'openai';
 import * as vscode from 'vscode';
+import { AIChatMessage, AICompletionResponse, AIProvider, AITask, isCancellationError, providerRegistry } from './aiProvider';
+import { ApiKeyStore } from './apiKeyStore';
+import { MockProvider } from './providers/mockProvider';
+import { FixtureStore, RecordingProvider } from './providers/replayProvider';
+import { Quiz } from './quizGenerator';
+import { CodeExplanation, ExplanationSection } from './codeExplainer';
+import { ClarifyTurn } from './clarifyHistory';
+import { ExplanationStreamHandlers, ExplanationStreamParser } from './explanationStreamParser';
+import { ResponseCache } from './responseCache';
+import { linkCancellation, requestPipeline } from './requestPipeline';
+import { UsageLedger, UsageRecord } from './usageLedger';
+import { estimateTokens } from './codeChunker';
+import { defaultTemplate, PromptTemplates, RenderedPrompt, renderTemplate } from './promptTemplates';
+import {
+    validateCodeModificationResult,
+    validateExplanation,
+    validateQuiz,
+    validateShortAnswerResult,
+    Validator
+} from './responseValidator';
+
+const MAX_CLARIFY_CONTEXT_TURNS = 10; // Earlier clarify turns sent with a follow-up question
+
+/**
+ * User-facing groups of tasks that share model, temperature and max-token settings
+ */
+export type AITaskGroup = 'generation' | 'explanation' | 'clarification' | 'grading';
+
+export interface AITaskSettings {
+    model?: string; // Falls back to the provider's configured model
+    temperature?: number;
+    maxTokens?: number;
+}
 
 export interface AIConfig {
-    provider: 'openai' | 'anthropic' | 'local' | 'mock';
-    apiKey?: string;
+    provider: string; // Name of a registered provider
+    maxRepairAttempts: number; // Re-prompts allowed when a reply fails validation
+    requestTimeout: number; // Milliseconds, for tasks without their own timeout
+    tasks: Record<AITaskGroup, AITaskSettings>;
+}
+
+/**
+ * The provider requests currently go to, as shown in the status bar
+ */
+export interface AIProviderStatus {
+    providerId: string;
+    label?: string; // Undefined when no provider is registered under `providerId`
     model?: string;
-    baseURL?: string;
+    configured: boolean; // False when requests use the fallback generators
+    capReached: boolean; // The monthly token cap is used up, so requests use the fallback generators
+    taskModels: Partial<Record<AITaskGroup, string>>; // Per-task model overrides
+}
+
+export interface AIRequestOptions {
+    signal?: AbortSignal;
+    token?: vscode.CancellationToken; // Linked with `signal`; either one cancels the request
+    refresh?: boolean; // Ignore a cached result and replace it
 }
 
 export interface AIQuizRequest {
@@ -33,6 +84,8 @@ export interface AIClarifyRequest {
     question: string;
     language?: string;
     detailLevel?: 'basic' | 'detailed' | 'expert';
+    explanation?: CodeExplanation; // The explanation the question is about
+    history?: ClarifyTurn[]; // Earlier questions about the same code, oldest first
 }
 
 export interface AIEvaluateShortAnswerRequest {
@@ -64,13 +117,130 @@ export interface AICodeModificationResult {
     suggestions?: string[]; // Suggestions for improvement
 }
 
-export class AIService {
-    private openai?: OpenAI;
+/**
+ * Part of every cache key; bump when system prompts or response handling change so cached
+ * results are regenerated (task prompt templates are versioned by their content hash)
+ */
+const PROMPT_VERSION = 1;
+
+interface CompletionOptions {
+    signal?: AbortSignal;
+    onText?: (delta: string) => void; // Stream the reply when the provider supports it
+}
+
+interface TaskDefaults {
+    system: string;
+    temperature: number;
+    maxTokens: number;
+    timeout?: number; // Milliseconds
+    json: boolean;
+}
+
+const TASK_GROUPS: Record<AITask, AITaskGroup> = {
+    quiz: 'generation',
+    explanation: 'explanation',
+    clarification: 'clarification',
+    shortAnswer: 'grading',
+    codeModification: 'grading'
+};
+
+const TASK_DEFAULTS: Record<AITask, TaskDefaults> = {
+    quiz: {
+        system: 'You are a helpful coding instructor that generates educational quizzes. Always return valid JSON.',
+        temperature: 0.7,
+        maxTokens: 2000,
+        json: true
+    },
+    explanation: {
+        system: 'You are a helpful coding instructor that explains code clearly. Always return valid JSON.',
+        temperature: 0.3,
+        maxTokens: 3000,
+        json: true
+    },
+    clarification: {
+        system: 'You are a helpful coding instructor. Answer clearly and concisely.',
+        temperature: 0.3,
+        maxTokens: 600, // Reduced for faster responses
+        timeout: 15000, // 15 second timeout for speed
+        json: false
+    },
+    shortAnswer: {
+        system: 'You are a lenient, encouraging quiz grader. Always return valid JSON with keys score, verdict, feedback. Be generous with partial credit.',
+        temperature: 0.1, // Lower for consistency
+        maxTokens: 200, // Reduced for speed
+        timeout: 15000,
+        json: true
+    },
+    codeModification: {
+        system: 'You are a strict code reviewer and CS instructor. Always return valid JSON with keys score, verdict, feedback, issues, suggestions. Be harsh and precise - no partial credit for sloppy code.',
+        temperature: 0.0, // Deterministic for consistency
+        maxTokens: 500,
+        timeout: 20000, // 20 second timeout for complex evaluation
+        json: true
+    }
+};
+
+/**
+ * Raised when a provider keeps returning replies that fail validation
+ */
+export class AIResponseValidationError extends Error {
+    constructor(public readonly task: AITask, public readonly errors: string[]) {
+        super(`Invalid ${task} response: ${errors.slice(0, 3).join('; ')}`);
+        this.name = 'AIResponseValidationError';
+    }
+}
+
+/**
+ * Raised for quizzes and explanations the AI cannot provide (no provider configured,
+ * the token cap reached or the provider failed), so the caller's syntax-tree
+ * generators take over
+ */
+export class AIFallbackError extends Error {
+    constructor(public readonly task: AITask, reason: string) {
+        super(`No AI ${task}: ${reason}`);
+        this.name = 'AIFallbackError';
+    }
+}
+
+/**
+ * Shared by every feature of the extension. The provider client is rebuilt whenever
+ * the `codeQuizExplainer` settings, a stored API key or the provider registry change.
+ */
+export class AIService implements vscode.Disposable {
+    private provider?: AIProvider;
+    private providerReady: Promise<AIProvider | undefined>;
+    private fallback = new MockProvider();
     private config: AIConfig;
+    private capReached = false;
+    private statusEmitter = new vscode.EventEmitter<AIProviderStatus>();
+    private disposables: vscode.Disposable[] = [];
 
-    constructor() {
+    /**
+     * Fires once the provider has been rebuilt after a configuration change
+     */
+    readonly onDidChangeStatus = this.statusEmitter.event;
+
+    constructor(
+        private cache?: ResponseCache,
+        private apiKeys?: ApiKeyStore,
+        private usage?: UsageLedger,
+        private templates?: PromptTemplates
+    ) {
         this.config = this.loadConfiguration();
-        this.initializeAI();
+        this.providerReady = this.reload();
+
+        this.disposables.push(
+            this.statusEmitter,
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('codeQuizExplainer')) {
+                    this.updateConfiguration();
+                }
+            }),
+            providerRegistry.onDidChange(() => this.reload())
+        );
+        if (apiKeys) {
+            this.disposables.push(apiKeys.onDidChange(() => this.reload()));
+        }
     }
 
     /**
@@ -78,787 +248,654 @@ export class AIService {
      */
     private loadConfiguration(): AIConfig {
         const config = vscode.workspace.getConfiguration('codeQuizExplainer');
-        
         return {
-            provider: config.get('aiProvider', 'openai'),
-            apiKey: config.get('openaiApiKey', process.env.OPENAI_API_KEY),
-            model: config.get('openaiModel', 'gpt-4'),
-            baseURL: config.get('openaiBaseURL')
+            provider: config.get<string>('aiProvider', 'openai'),
+            maxRepairAttempts: Math.max(0, config.get<number>('maxRepairAttempts', 2)),
+            requestTimeout: Math.max(1000, config.get<number>('requestTimeout', 60000)),
+            tasks: {
+                generation: this.loadTaskSettings(config, 'generation'),
+                explanation: this.loadTaskSettings(config, 'explanation'),
+                clarification: this.loadTaskSettings(config, 'clarification'),
+                grading: this.loadTaskSettings(config, 'grading')
+            }
+        };
+    }
+
+    /**
+     * Read `<group>Model`, `<group>Temperature` and `<group>MaxTokens`; unset (null) values use the defaults
+     */
+    private loadTaskSettings(config: vscode.WorkspaceConfiguration, group: AITaskGroup): AITaskSettings {
+        const model = config.get<string | null>(`${group}Model`);
+        const temperature = config.get<number | null>(`${group}Temperature`);
+        const maxTokens = config.get<number | null>(`${group}MaxTokens`);
+        return {
+            model: model?.trim() || undefined,
+            temperature: typeof temperature === 'number' ? Math.min(2, Math.max(0, temperature)) : undefined,
+            maxTokens: typeof maxTokens === 'number' && maxTokens > 0 ? Math.floor(maxTokens) : undefined
         };
     }
 
     /**
      * Initialize AI service based on configuration
      */
-    private initializeAI(): void {
-        if (this.config.provider === 'openai' && this.config.apiKey) {
-            this.openai = new OpenAI({
-                apiKey: this.config.apiKey,
-                baseURL: this.config.baseURL
-            });
+    private async initializeAI(): Promise<AIProvider | undefined> {
+        const apiKeys = this.apiKeys ? await this.apiKeys.resolve() : {};
+        const settings = vscode.workspace.getConfiguration('codeQuizExplainer');
+        try {
+            const provider = providerRegistry.create(this.config.provider, settings, apiKeys);
+            if (!provider) {
+                console.warn(`No AI provider registered as "${this.config.provider}", using fallback generation`);
+                return undefined;
+            }
+
+            const fixtures = settings.get<boolean>('recordFixtures', false) ? FixtureStore.fromSettings(settings) : undefined;
+            if (fixtures && provider.id !== 'replay') {
+                console.log('📼 Recording AI fixtures');
+                return new RecordingProvider(provider, fixtures);
+            }
+            return provider;
+        } catch (error) {
+            console.error(`Failed to create AI provider "${this.config.provider}":`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Rebuild the provider; requests made meanwhile wait for the new one
+     */
+    private reload(): Promise<AIProvider | undefined> {
+        const ready = this.initializeAI().then(provider => {
+            // A newer reload may have started while the keys were being resolved
+            if (this.providerReady === ready) {
+                this.provider = provider;
+                console.log('🔄 AI provider ready:', this.getStatus());
+                this.statusEmitter.fire(this.getStatus());
+            }
+            return provider;
+        });
+        this.providerReady = ready;
+        return ready;
+    }
+
+    /**
+     * Describe the active provider and model
+     */
+    getStatus(): AIProviderStatus {
+        const taskModels: Partial<Record<AITaskGroup, string>> = {};
+        for (const [group, settings] of Object.entries(this.config.tasks) as [AITaskGroup, AITaskSettings][]) {
+            if (settings.model) {
+                taskModels[group] = settings.model;
+            }
         }
+
+        return {
+            providerId: this.config.provider,
+            label: this.provider?.label,
+            model: this.provider?.model,
+            configured: !!this.provider?.isConfigured(),
+            capReached: this.capReached,
+            taskModels
+        };
     }
 
     /**
-     * Generate quiz questions using AI
+     * Generate quiz questions using AI. Rejects with an AIFallbackError when the
+     * quiz has to come from the rule-based generator instead.
      */
-    async generateQuiz(request: AIQuizRequest): Promise<any> {
-        if (!this.isConfigured()) {
-            console.log('AI not configured, falling back to mock data');
-            return this.generateMockQuiz(request.code);
+    async generateQuiz(request: AIQuizRequest, options: AIRequestOptions = {}): Promise<Quiz> {
+        const provider = await this.getConfiguredProvider();
+        if (!provider) {
+            throw this.requireFallback('quiz', 'AI not configured');
         }
 
+        const cancellation = linkCancellation(options.token, options.signal);
+        const signal = cancellation.signal;
         try {
-            const prompt = this.buildQuizPrompt(request);
-            
-            if (this.config.provider === 'openai' && this.openai) {
-                return await this.generateOpenAIQuiz(prompt);
-            }
-            
-            // Fallback to mock if provider not supported
-            return this.generateMockQuiz(request.code);
-            
+            const prompt = await this.buildQuizPrompt(request);
+            const key = this.cacheKey(provider, 'quiz', prompt, {
+                code: request.code,
+                language: request.language,
+                difficulty: request.difficulty,
+                questionCount: request.questionCount
+            });
+            return await this.withCache(provider, 'quiz', key, options, () =>
+                this.completeJSON(provider, 'quiz', prompt.text, request, validateQuiz, { signal })
+            );
         } catch (error: any) {
+            this.rethrowIfCancelled(error, signal);
             console.error('AI quiz generation failed:', error);
-            
-            // Provide specific error messages
-            if (error.status === 429) {
-                if (error.code === 'rate_limit_exceeded') {
-                    vscode.window.showWarningMessage('Rate limit exceeded. Please wait a moment and try again.');
-                } else if (error.code === 'insufficient_quota') {
-                    vscode.window.showWarningMessage('OpenAI quota exceeded. Check your billing at platform.openai.com');
-                } else {
-                    vscode.window.showWarningMessage('OpenAI rate limit hit. Using fallback generation.');
-                }
-            } else if (error.status === 401) {
-                vscode.window.showErrorMessage('Invalid OpenAI API key. Please check your settings.');
-            } else {
-                vscode.window.showWarningMessage('AI service unavailable, using fallback quiz generation');
-            }
-            
-            return this.generateMockQuiz(request.code);
+            this.reportProviderError(error, provider, 'AI service unavailable, using fallback quiz generation');
+            throw this.requireFallback('quiz', error.message);
+        } finally {
+            cancellation.dispose();
         }
     }
 
     /**
      * Generate code explanation using AI
      */
-    async generateExplanation(request: AIExplanationRequest): Promise<any> {
-        if (!this.isConfigured()) {
-            console.log('AI not configured, falling back to mock data');
-            return this.generateMockExplanation(request.code);
-        }
+    async generateExplanation(request: AIExplanationRequest, options: AIRequestOptions = {}): Promise<CodeExplanation> {
+        return this.streamExplanation(request, {}, options);
+    }
 
+    /**
+     * Generate a code explanation, reporting the overview and each line explanation
+     * as they stream in. Cached results and providers without streaming report the
+     * final result only. Rejects with a cancellation error when the request is cancelled,
+     * and with an AIFallbackError when the rule-based explainer has to take over.
+     */
+    async streamExplanation(
+        request: AIExplanationRequest,
+        handlers: ExplanationStreamHandlers,
+        options: AIRequestOptions = {}
+    ): Promise<CodeExplanation> {
+        const provider = await this.getConfiguredProvider();
+        if (!provider) {
+            throw this.requireFallback('explanation', 'AI not configured');
+        }
+
+        const cancellation = linkCancellation(options.token, options.signal);
+        const signal = cancellation.signal;
+        const streaming = !!(handlers.onField || handlers.onLine);
+        const parser = new ExplanationStreamParser(handlers);
         try {
-            const prompt = this.buildExplanationPrompt(request);
-            
-            if (this.config.provider === 'openai' && this.openai) {
-                return await this.generateOpenAIExplanation(prompt);
-            }
-            
-            // Fallback to mock if provider not supported
-            return this.generateMockExplanation(request.code);
-            
+            const prompt = await this.buildExplanationPrompt(request);
+            return await this.withCache(provider, 'explanation', this.explanationCacheKey(provider, prompt, request), options, () =>
+                this.completeJSON(provider, 'explanation', prompt.text, request, validateExplanation, {
+                    signal,
+                    onText: streaming ? delta => parser.push(delta) : undefined
+                })
+            );
         } catch (error: any) {
+            this.rethrowIfCancelled(error, signal);
             console.error('AI explanation generation failed:', error);
-            
-            // Provide specific error messages
-            if (error.status === 429) {
-                if (error.code === 'rate_limit_exceeded') {
-                    vscode.window.showWarningMessage('Rate limit exceeded. Please wait a moment and try again.');
-                } else if (error.code === 'insufficient_quota') {
-                    vscode.window.showWarningMessage('OpenAI quota exceeded. Check your billing at platform.openai.com');
-                } else {
-                    vscode.window.showWarningMessage('OpenAI rate limit hit. Using fallback generation.');
-                }
-            } else if (error.status === 401) {
-                vscode.window.showErrorMessage('Invalid OpenAI API key. Please check your settings.');
-            } else {
-                vscode.window.showWarningMessage('AI service unavailable, using fallback explanation');
-            }
-            
-            return this.generateMockExplanation(request.code);
+            this.reportProviderError(error, provider, 'AI service unavailable, using fallback explanation');
+            throw this.requireFallback('explanation', error.message);
+        } finally {
+            cancellation.dispose();
         }
     }
 
     /**
-     * Provide a follow-up clarification for an existing explanation
+     * Provide a follow-up clarification for an existing explanation. Earlier turns
+     * are replayed as a conversation, so follow-ups can refer back to them.
      */
-    async clarifyExplanation(request: AIClarifyRequest): Promise<string> {
-        if (!this.isConfigured()) {
+    async clarifyExplanation(request: AIClarifyRequest, options: AIRequestOptions = {}): Promise<string> {
+        const provider = await this.getConfiguredProvider();
+        if (!provider) {
             console.log('AI not configured, returning mock clarification');
-            return this.generateMockClarification(request);
+            return this.useFallback('clarification', () => this.fallback.generateMockClarification(request));
         }
 
+        const cancellation = linkCancellation(options.token, options.signal);
+        const signal = cancellation.signal;
         try {
-            const prompt = this.buildClarifyPrompt(request);
-            if (this.config.provider === 'openai' && this.openai) {
-                return await this.generateOpenAIClarification(prompt);
-            }
-            return this.generateMockClarification(request);
+            const content = await this.completeMessages(provider, 'clarification', await this.buildClarifyMessages(request), request, { signal });
+            return content.trim();
         } catch (error: any) {
+            this.rethrowIfCancelled(error, signal);
             console.error('AI clarification failed:', error);
-            if (error.status === 429) {
-                vscode.window.showWarningMessage('Rate limit exceeded. Please wait a moment and try again.');
-            } else if (error.status === 401) {
-                vscode.window.showErrorMessage('Invalid OpenAI API key. Please check your settings.');
-            } else {
-                vscode.window.showWarningMessage('AI service unavailable, using fallback clarification');
-            }
-            return this.generateMockClarification(request);
+            this.reportProviderError(error, provider, 'AI service unavailable, using fallback clarification');
+            return this.useFallback('clarification', () => this.fallback.generateMockClarification(request));
+        } finally {
+            cancellation.dispose();
         }
     }
 
     /**
      * Evaluate an open-ended short answer for similarity and quality
      */
-    async evaluateShortAnswer(request: AIEvaluateShortAnswerRequest): Promise<AIShortAnswerResult> {
-        if (!this.isConfigured()) {
-            return this.evaluateShortAnswerFallback(request);
+    async evaluateShortAnswer(request: AIEvaluateShortAnswerRequest, options: AIRequestOptions = {}): Promise<AIShortAnswerResult> {
+        const provider = await this.getConfiguredProvider();
+        if (!provider) {
+            return this.useFallback('shortAnswer', () => this.fallback.evaluateShortAnswerFallback(request));
         }
 
+        const cancellation = linkCancellation(options.token, options.signal);
+        const signal = cancellation.signal;
         try {
-            const prompt = this.buildShortAnswerEvalPrompt(request);
-            if (this.config.provider === 'openai' && this.openai) {
-                return await this.generateOpenAIShortAnswerEvaluation(prompt);
-            }
-            return this.evaluateShortAnswerFallback(request);
-        } catch (error) {
+            const prompt = await this.buildShortAnswerEvalPrompt(request);
+            return await this.completeJSON(provider, 'shortAnswer', prompt.text, request, validateShortAnswerResult, { signal });
+        } catch (error: any) {
+            this.rethrowIfCancelled(error, signal);
             console.error('AI short answer evaluation failed:', error);
-            return this.evaluateShortAnswerFallback(request);
+            this.reportProviderError(error, provider, 'AI grading unavailable, using fallback grading');
+            return this.useFallback('shortAnswer', () => this.fallback.evaluateShortAnswerFallback(request));
+        } finally {
+            cancellation.dispose();
         }
     }
 
     /**
      * Evaluate code modification with strict criteria
      */
-    async evaluateCodeModification(request: AICodeModificationRequest): Promise<AICodeModificationResult> {
-        if (!this.isConfigured()) {
-            return this.evaluateCodeModificationFallback(request);
+    async evaluateCodeModification(request: AICodeModificationRequest, options: AIRequestOptions = {}): Promise<AICodeModificationResult> {
+        const provider = await this.getConfiguredProvider();
+        if (!provider) {
+            return this.useFallback('codeModification', () => this.fallback.evaluateCodeModificationFallback(request));
         }
 
+        const cancellation = linkCancellation(options.token, options.signal);
+        const signal = cancellation.signal;
         try {
-            const prompt = this.buildCodeModificationEvalPrompt(request);
-            if (this.config.provider === 'openai' && this.openai) {
-                return await this.generateOpenAICodeModificationEvaluation(prompt);
-            }
-            return this.evaluateCodeModificationFallback(request);
-        } catch (error) {
+            const prompt = await this.buildCodeModificationEvalPrompt(request);
+            return await this.completeJSON(provider, 'codeModification', prompt.text, request, validateCodeModificationResult, { signal });
+        } catch (error: any) {
+            this.rethrowIfCancelled(error, signal);
             console.error('AI code modification evaluation failed:', error);
-            return this.evaluateCodeModificationFallback(request);
+            this.reportProviderError(error, provider, 'AI grading unavailable, using fallback grading');
+            return this.useFallback('codeModification', () => this.fallback.evaluateCodeModificationFallback(request));
+        } finally {
+            cancellation.dispose();
         }
     }
 
     /**
-     * Check if AI service is properly configured
+     * Return the active provider if it is ready to serve requests
      */
-    private isConfigured(): boolean {
-        console.log('AI Configuration Check:', {
-            provider: this.config.provider,
-            hasApiKey: !!this.config.apiKey,
-            apiKeyStart: this.config.apiKey?.substring(0, 10) + '...',
-            model: this.config.model
-        });
-        return !!(this.config.apiKey && this.config.provider !== 'mock');
+    private async getConfiguredProvider(): Promise<AIProvider | undefined> {
+        const provider = await this.providerReady;
+        if (!provider?.isConfigured()) {
+            return undefined;
+        }
+
+        this.setCapReached(!!this.usage && await this.usage.capReached());
+        return this.capReached ? undefined : provider;
+    }
+
+    private setCapReached(reached: boolean): void {
+        if (reached === this.capReached) {
+            return;
+        }
+        this.capReached = reached;
+        if (reached) {
+            console.warn('💸 Monthly AI token cap reached, using fallback generation');
+            vscode.window.showWarningMessage('Monthly AI token cap reached. Using fallback generation until next month or until you raise monthlyTokenCap.');
+        }
+        this.statusEmitter.fire(this.getStatus());
     }
 
     /**
-     * Build quiz generation prompt
+     * Add an entry to the usage ledger; ledger failures never affect the request
      */
-    private buildQuizPrompt(request: AIQuizRequest): string {
-        const difficulty = request.difficulty || 'intermediate';
-        const questionCount = request.questionCount || 5;
-        const language = request.language || 'JavaScript';
-
-        return `
-You are an expert coding instructor. Analyze the following ${language} code and generate exactly ${questionCount} quiz questions to test understanding.
-
-CODE:
-\`\`\`${language.toLowerCase()}
-${request.code}
-\`\`\`
-
-Requirements:
-- Difficulty level: ${difficulty}
-- Mix of multiple-choice and open-ended questions
-- Focus on: function names, variable purposes, control flow, syntax, and overall logic
-- Include brief explanations for each answer
-- Return JSON format matching this structure:
-
-{
-  "title": "Code Understanding Quiz",
-  "questions": [
-    {
-      "id": "q1",
-      "type": "multiple-choice" | "open-ended",
-      "question": "Question text here",
-      "options": ["option1", "option2", "option3", "option4"], // only for multiple-choice
-      "correctAnswer": "correct answer",
-      "explanation": "Brief explanation of why this is correct",
-      "codeSnippet": "relevant code snippet if applicable"
-    }
-  ],
-  "totalQuestions": ${questionCount}
-}
-
-Generate questions that help the user understand what this code does, how it works, and why it's structured this way.`;
+    private recordUsage(entry: Omit<UsageRecord, 'timestamp'>): void {
+        this.usage?.record(entry).catch(error => console.warn('Failed to record AI usage:', error));
     }
 
     /**
-     * Build explanation generation prompt
+     * Record that a task was served by the offline fallback and return its result
      */
-    private buildExplanationPrompt(request: AIExplanationRequest): string {
-        const detailLevel = request.detailLevel || 'detailed';
-        const language = request.language || 'JavaScript';
-
-        return `
-You are an expert coding instructor. Provide a comprehensive explanation of the following ${language} code.
-
-CODE:
-\`\`\`${language.toLowerCase()}
-${request.code}
-\`\`\`
-
-Detail level: ${detailLevel}
-
-Please analyze the code and return JSON in this exact format:
-
-{
-  "title": "Code Explanation",
-  "overview": "High-level summary of what this code does and its purpose",
-  "lineByLineExplanations": [
-    {
-      "lineNumber": 1,
-      "code": "actual line of code",
-      "explanation": "What this line does and why",
-      "category": "declaration" | "assignment" | "function-call" | "control-flow" | "comment" | "other",
-      "importance": "high" | "medium" | "low"
-    }
-  ],
-  "summary": {
-    "totalLines": 0,
-    "functions": ["function names found"],
-    "variables": ["variable names found"],
-    "classes": ["class names found"],
-    "keyPurpose": "Main purpose of this code",
-    "complexity": "simple" | "moderate" | "complex"
-  }
-}
+    private useFallback<T>(task: AITask, generate: () => T): T {
+        this.recordUsage({ task, promptTokens: 0, completionTokens: 0, latency: 0, cached: false, outcome: 'fallback' });
+        return generate();
+    }
 
-Focus on:
-- Clear explanations for beginners to intermediate programmers
-- Why each line is important
-- How the pieces work together
-- Best practices demonstrated or violated
-- Potential improvements`;
+    /**
+     * Record that a task goes to the caller's rule-based generator and return the error telling it so
+     */
+    private requireFallback(task: AITask, reason: string): AIFallbackError {
+        this.recordUsage({ task, promptTokens: 0, completionTokens: 0, latency: 0, cached: false, outcome: 'fallback' });
+        return new AIFallbackError(task, reason);
     }
 
     /**
-     * Build clarification prompt
+     * Return the cached result for `key`, or generate, cache and return a new one.
+     * Only results that came back from the provider and passed validation are cached.
      */
-    private buildClarifyPrompt(request: AIClarifyRequest): string {
-        const detailLevel = request.detailLevel || 'detailed';
-        const language = request.language || 'JavaScript';
-        return `
-You are an expert coding instructor. The user has a follow-up question about the following ${language} code.
+    private async withCache<T>(
+        provider: AIProvider,
+        task: AITask,
+        key: string,
+        options: AIRequestOptions,
+        generate: () => Promise<T>
+    ): Promise<T> {
+        // While recording, every request must reach the provider to be captured
+        if (this.cache && !options.refresh && !(provider instanceof RecordingProvider)) {
+            const cached = await this.cache.get<T>(key);
+            if (cached) {
+                console.log('📦 Using cached AI response');
+                this.recordUsage({
+                    task,
+                    provider: provider.id,
+                    model: this.config.tasks[TASK_GROUPS[task]].model || provider.model,
+                    promptTokens: 0,
+                    completionTokens: 0,
+                    latency: 0,
+                    cached: true,
+                    outcome: 'success'
+                });
+                return cached;
+            }
+        }
 
-CODE:
-\`\`\`${language.toLowerCase()}
-${request.code}
-\`\`\`
+        const result = await generate();
+        await this.cache?.set(key, result);
+        return result;
+    }
 
-USER QUESTION:
-"""
-${request.question}
-"""
+    private cacheKey(provider: AIProvider, task: AITask, prompt: RenderedPrompt, parts: Record<string, unknown>): string {
+        return ResponseCache.key({
+            ...parts,
+            task,
+            provider: provider.id,
+            model: this.config.tasks[TASK_GROUPS[task]].model || provider.model,
+            promptVersion: PROMPT_VERSION,
+            template: prompt.version
+        });
+    }
 
-Answer directly and concisely at a ${detailLevel} level. Use clear, structured paragraphs and bullet points where helpful. Do not return JSON, just the explanation text.`;
+    private explanationCacheKey(provider: AIProvider, prompt: RenderedPrompt, request: AIExplanationRequest): string {
+        return this.cacheKey(provider, 'explanation', prompt, {
+            code: request.code,
+            language: request.language,
+            detailLevel: request.detailLevel
+        });
     }
 
     /**
-     * Build short answer evaluation prompt
+     * Render a task's prompt from its template (a workspace override or the built-in default)
      */
-    private buildShortAnswerEvalPrompt(req: AIEvaluateShortAnswerRequest): string {
-        const language = req.language || 'JavaScript';
-        return `Grade this ${language} quiz answer LENIENTLY. Accept variations, synonyms, and different phrasings that convey the same meaning.
-
-QUESTION: ${req.question}
+    private async renderPrompt(task: AITask, variables: Record<string, string>): Promise<RenderedPrompt> {
+        const template = this.templates ? await this.templates.get(task) : defaultTemplate(task);
+        return renderTemplate(template, variables);
+    }
 
-REFERENCE: ${req.correctAnswer}
+    /**
+     * Build quiz generation prompt
+     */
+    private buildQuizPrompt(request: AIQuizRequest): Promise<RenderedPrompt> {
+        const language = request.language || 'JavaScript';
+        return this.renderPrompt('quiz', {
+            code: request.code,
+            language,
+            languageId: language.toLowerCase(),
+            difficulty: request.difficulty || 'intermediate',
+            questionCount: String(request.questionCount || 5)
+        });
+    }
 
-STUDENT: ${req.userAnswer}
+    /**
+     * Build explanation generation prompt
+     */
+    private buildExplanationPrompt(request: AIExplanationRequest): Promise<RenderedPrompt> {
+        const language = request.language || 'JavaScript';
+        return this.renderPrompt('explanation', {
+            code: request.code,
+            language,
+            languageId: language.toLowerCase(),
+            detailLevel: request.detailLevel || 'detailed'
+        });
+    }
 
-SCORING GUIDELINES:
-- Score 0.7-1.0: Shows good understanding (use "correct" verdict)
-- Score 0.3-0.69: Shows partial understanding (use "partial" verdict)  
-- Score 0-0.29: Minimal/no understanding (use "incorrect" verdict)
+    /**
+     * Build the clarification conversation: the template carries the code, the
+     * explanation and the first question, later questions and all answers follow as
+     * chat turns, and the new question comes last
+     */
+    private async buildClarifyMessages(request: AIClarifyRequest): Promise<AIChatMessage[]> {
+        const language = request.language || 'JavaScript';
+        const history = (request.history ?? []).slice(-MAX_CLARIFY_CONTEXT_TURNS);
+        const prompt = await this.renderPrompt('clarification', {
+            code: request.code,
+            language,
+            languageId: language.toLowerCase(),
+            detailLevel: request.detailLevel || 'detailed',
+            explanation: request.explanation ? this.describeExplanation(request.explanation) : 'No explanation has been shown yet.',
+            question: history.length > 0 ? history[0].question : request.question
+        });
 
-Be encouraging but honest. Don't say "amazing work" for low scores.
+        const messages = this.buildMessages('clarification', prompt.text);
+        history.forEach((turn, index) => {
+            if (index > 0) {
+                messages.push({ role: 'user', content: turn.question });
+            }
+            messages.push({ role: 'assistant', content: turn.answer });
+        });
+        if (history.length > 0) {
+            messages.push({ role: 'user', content: request.question });
+        }
+        return messages;
+    }
 
-Return JSON: {"score": 0-1, "verdict": "correct|partial|incorrect", "feedback": "appropriate encouraging comment"}`;
+    /**
+     * The explanation as plain text for the clarification prompt: the overview and
+     * the section outline (the code itself is in the prompt already)
+     */
+    private describeExplanation(explanation: CodeExplanation): string {
+        const outline = (sections: ExplanationSection[], depth: number): string[] => sections.flatMap(section => [
+            `${'  '.repeat(depth)}- ${section.title} (lines ${section.startLine}-${section.endLine}): ${section.explanation}`,
+            ...outline(section.sections ?? [], depth + 1)
+        ]);
+        const sections = outline(explanation.sections ?? [], 0);
+        return sections.length > 0
+            ? `${explanation.overview}\n\nSections:\n${sections.join('\n')}`
+            : explanation.overview;
     }
 
     /**
-     * Build prompt for code modification evaluation - STRICT grading
+     * Build short answer evaluation prompt
      */
-    private buildCodeModificationEvalPrompt(req: AICodeModificationRequest): string {
+    private buildShortAnswerEvalPrompt(req: AIEvaluateShortAnswerRequest): Promise<RenderedPrompt> {
         const language = req.language || 'JavaScript';
-        return `STRICTLY evaluate this ${language} code modification. Be harsh and precise - no partial credit for close attempts.
-
-ORIGINAL CODE:
-\`\`\`${language.toLowerCase()}
-${req.originalCode}
-\`\`\`
-
-REQUIREMENT:
-${req.requirement}
-
-STUDENT'S MODIFIED CODE:
-\`\`\`${language.toLowerCase()}
-${req.userModifiedCode}
-\`\`\`
-
-STRICT EVALUATION CRITERIA:
-- Score 1.0: Code EXACTLY meets requirement, no syntax errors, proper style
-- Score 0.5-0.9: Code mostly works but has minor issues or inefficiencies  
-- Score 0.1-0.4: Code attempts requirement but has significant flaws
-- Score 0.0: Code doesn't work, has syntax errors, or ignores requirement
-
-Check for:
-1. Syntax correctness
-2. Logic correctness
-3. Exact requirement fulfillment
-4. Code quality and style
-5. Edge cases handled
-
-Be critical and precise. No encouragement for poor attempts.
-
-Return JSON: {"score": 0-1, "verdict": "correct|partial|incorrect", "feedback": "specific technical feedback", "issues": ["list", "of", "problems"], "suggestions": ["specific", "improvements"]}`;
+        return this.renderPrompt('shortAnswer', {
+            question: req.question,
+            correctAnswer: req.correctAnswer,
+            userAnswer: req.userAnswer,
+            codeSnippet: req.codeSnippet || '',
+            language,
+            languageId: language.toLowerCase()
+        });
     }
 
     /**
-     * Generate quiz using OpenAI
+     * Build prompt for code modification evaluation - STRICT grading
      */
-    private async generateOpenAIQuiz(prompt: string): Promise<any> {
-        if (!this.openai) {
-            throw new Error('OpenAI not initialized');
-        }
-
-        const completion = await this.openai.chat.completions.create({
-            model: this.config.model || 'gpt-4',
-            messages: [
-                {
-                    role: 'system',
-                    content: 'You are a helpful coding instructor that generates educational quizzes. Always return valid JSON.'
-                },
-                {
-                    role: 'user',
-                    content: prompt
-                }
-            ],
-            temperature: 0.7,
-            max_tokens: 2000
+    private buildCodeModificationEvalPrompt(req: AICodeModificationRequest): Promise<RenderedPrompt> {
+        const language = req.language || 'JavaScript';
+        return this.renderPrompt('codeModification', {
+            originalCode: req.originalCode,
+            requirement: req.requirement,
+            userModifiedCode: req.userModifiedCode,
+            language,
+            languageId: language.toLowerCase()
         });
-
-        const content = completion.choices[0]?.message?.content;
-        if (!content) {
-            throw new Error('No response from OpenAI');
-        }
-
-        try {
-            return JSON.parse(content);
-        } catch (error) {
-            console.error('Failed to parse OpenAI response:', content);
-            throw new Error('Invalid JSON response from OpenAI');
-        }
     }
 
     /**
-     * Generate explanation using OpenAI
+     * Request a JSON document and validate it, re-prompting with the validation
+     * errors up to `maxRepairAttempts` times before giving up.
+     * Only the first attempt is streamed; repairs replace the whole document.
      */
-    private async generateOpenAIExplanation(prompt: string): Promise<any> {
-        if (!this.openai) {
-            throw new Error('OpenAI not initialized');
-        }
+    private async completeJSON<T>(
+        provider: AIProvider,
+        task: AITask,
+        prompt: string,
+        source: unknown,
+        validate: Validator<T>,
+        options: CompletionOptions = {}
+    ): Promise<T> {
+        const messages = this.buildMessages(task, prompt);
+        let errors: string[] = [];
+
+        for (let attempt = 0; attempt <= this.config.maxRepairAttempts; attempt++) {
+            const content = await this.completeMessages(provider, task, messages, source, {
+                signal: options.signal,
+                onText: attempt === 0 ? options.onText : undefined
+            });
 
-        const completion = await this.openai.chat.completions.create({
-            model: this.config.model || 'gpt-4',
-            messages: [
-                {
-                    role: 'system',
-                    content: 'You are a helpful coding instructor that explains code clearly. Always return valid JSON.'
-                },
-                {
-                    role: 'user',
-                    content: prompt
+            try {
+                const result = validate(this.parseJSONContent(content, provider.label));
+                if (result.ok) {
+                    return result.value;
                 }
-            ],
-            temperature: 0.3,
-            max_tokens: 3000
-        });
+                errors = result.errors;
+            } catch (error: any) {
+                errors = [`The reply was not valid JSON: ${error.message}`];
+            }
 
-        const content = completion.choices[0]?.message?.content;
-        if (!content) {
-            throw new Error('No response from OpenAI');
+            console.warn(`AI ${task} response failed validation (attempt ${attempt + 1}):`, errors);
+            messages.push(
+                { role: 'assistant', content },
+                { role: 'user', content: this.buildRepairPrompt(errors) }
+            );
         }
 
-        try {
-            return JSON.parse(content);
-        } catch (error) {
-            console.error('Failed to parse OpenAI response:', content);
-            throw new Error('Invalid JSON response from OpenAI');
-        }
+        throw new AIResponseValidationError(task, errors);
     }
 
     /**
-     * Generate clarification using OpenAI
+     * Build the system + user messages for a task
      */
-    private async generateOpenAIClarification(prompt: string): Promise<string> {
-        if (!this.openai) {
-            throw new Error('OpenAI not initialized');
-        }
-
-        const completion = await this.openai.chat.completions.create({
-            model: 'gpt-3.5-turbo', // Use faster model for clarifications
-            messages: [
-                { role: 'system', content: 'You are a helpful coding instructor. Answer clearly and concisely.' },
-                { role: 'user', content: prompt }
-            ],
-            temperature: 0.3,
-            max_tokens: 600 // Reduced for faster responses
-        }, {
-            timeout: 15000 // 15 second timeout for speed
-        });
-
-        const content = completion.choices[0]?.message?.content;
-        if (!content) {
-            throw new Error('No response from OpenAI');
-        }
-        return content.trim();
+    private buildMessages(task: AITask, prompt: string): AIChatMessage[] {
+        return [
+            { role: 'system', content: TASK_DEFAULTS[task].system },
+            { role: 'user', content: prompt }
+        ];
     }
 
     /**
-     * Use OpenAI to evaluate short answer; expects strict JSON
+     * Build the follow-up prompt asking the model to fix an invalid reply
      */
-    private async generateOpenAIShortAnswerEvaluation(prompt: string): Promise<AIShortAnswerResult> {
-        if (!this.openai) {
-            throw new Error('OpenAI not initialized');
-        }
-        const completion = await this.openai.chat.completions.create({
-            model: 'gpt-3.5-turbo', // Faster model for speed
-            messages: [
-                { role: 'system', content: 'You are a lenient, encouraging quiz grader. Always return valid JSON with keys score, verdict, feedback. Be generous with partial credit.' },
-                { role: 'user', content: prompt }
-            ],
-            temperature: 0.1, // Lower for consistency
-            max_tokens: 200 // Reduced for speed
-        }, {
-            timeout: 15000 // 15 second timeout for speed
-        });
-        const content = completion.choices[0]?.message?.content;
-        if (!content) {
-            throw new Error('No response from OpenAI');
-        }
-        try {
-            const parsed = JSON.parse(content);
-            const score = Math.max(0, Math.min(1, Number(parsed.score)));
-            const verdict = (parsed.verdict === 'correct' || parsed.verdict === 'partial') ? parsed.verdict : 'incorrect';
-            const feedback = String(parsed.feedback || '');
-            return { score, verdict, feedback };
-        } catch (e) {
-            console.error('Failed to parse OpenAI short-answer response:', content);
-            return this.evaluateShortAnswerFallback({
-                question: '',
-                correctAnswer: '',
-                userAnswer: '',
-                codeSnippet: ''
-            });
-        }
+    private buildRepairPrompt(errors: string[]): string {
+        return `Your previous reply did not match the required JSON format:
+${errors.slice(0, 20).map(error => `- ${error}`).join('\n')}
+
+Return the complete corrected JSON document only, with no commentary or markdown.`;
     }
 
     /**
-     * Generate strict code modification evaluation using OpenAI
+     * Send messages to a provider with the task's settings (user overrides first,
+     * built-in defaults second) and return the reply text.
+     * Calls go through the shared pipeline for retries and concurrency limiting;
+     * a streamed reply is only retried if it failed before producing any text.
      */
-    private async generateOpenAICodeModificationEvaluation(prompt: string): Promise<AICodeModificationResult> {
-        if (!this.openai) {
-            throw new Error('OpenAI not initialized');
-        }
-        
-        const completion = await this.openai.chat.completions.create({
-            model: 'gpt-4', // Use more powerful model for code evaluation
-            messages: [
-                { 
-                    role: 'system', 
-                    content: 'You are a strict code reviewer and CS instructor. Always return valid JSON with keys score, verdict, feedback, issues, suggestions. Be harsh and precise - no partial credit for sloppy code.' 
-                },
-                { role: 'user', content: prompt }
-            ],
-            temperature: 0.0, // Deterministic for consistency
-            max_tokens: 500
-        }, {
-            timeout: 20000 // 20 second timeout for complex evaluation
-        });
-
-        const content = completion.choices[0]?.message?.content;
-        if (!content) {
-            throw new Error('No response from OpenAI');
-        }
+    private async completeMessages(
+        provider: AIProvider,
+        task: AITask,
+        messages: AIChatMessage[],
+        source: unknown,
+        options: CompletionOptions = {}
+    ): Promise<string> {
+        const defaults = TASK_DEFAULTS[task];
+        const overrides = this.config.tasks[TASK_GROUPS[task]];
+        const request = {
+            task,
+            messages: [...messages],
+            model: overrides.model,
+            temperature: overrides.temperature ?? defaults.temperature,
+            maxTokens: overrides.maxTokens ?? defaults.maxTokens,
+            timeout: defaults.timeout ?? this.config.requestTimeout,
+            json: defaults.json,
+            source,
+            signal: options.signal
+        };
 
+        const onText = options.onText;
+        let streamed = false;
+        const started = Date.now();
+        let response: AICompletionResponse;
         try {
-            const parsed = JSON.parse(content);
-            const score = Math.max(0, Math.min(1, Number(parsed.score)));
-            const verdict = score >= 0.7 ? 'correct' : score >= 0.3 ? 'partial' : 'incorrect';
-            const feedback = String(parsed.feedback || 'No feedback provided');
-            const issues = Array.isArray(parsed.issues) ? parsed.issues : [];
-            const suggestions = Array.isArray(parsed.suggestions) ? parsed.suggestions : [];
-            
-            return { score, verdict, feedback, issues, suggestions };
-        } catch (e) {
-            console.error('Failed to parse OpenAI code modification response:', content);
-            return this.evaluateCodeModificationFallback({
-                originalCode: '',
-                requirement: '',
-                userModifiedCode: ''
+            response = await requestPipeline.run(`${provider.label} ${task} request`, () =>
+                onText && provider.stream
+                    ? provider.stream(request, delta => {
+                        streamed = true;
+                        onText(delta);
+                    })
+                    : provider.complete(request),
+                { signal: options.signal, canRetry: () => !streamed }
+            );
+        } catch (error) {
+            this.recordUsage({
+                task,
+                provider: provider.id,
+                model: request.model || provider.model,
+                promptTokens: 0,
+                completionTokens: 0,
+                latency: Date.now() - started,
+                cached: false,
+                outcome: options.signal?.aborted || isCancellationError(error) ? 'cancelled' : 'error'
             });
+            throw error;
+        }
+
+        // Estimate the counts when the provider does not report usage (some local servers)
+        const usage = response.usage;
+        const estimated = usage?.promptTokens === undefined || usage?.completionTokens === undefined;
+        this.recordUsage({
+            task,
+            provider: provider.id,
+            model: response.model || request.model || provider.model,
+            promptTokens: usage?.promptTokens ?? estimateTokens(messages.map(message => message.content).join('\n')),
+            completionTokens: usage?.completionTokens ?? estimateTokens(response.content),
+            estimated: estimated || undefined,
+            latency: Date.now() - started,
+            cached: false,
+            outcome: 'success'
+        });
+
+        if (!response.content) {
+            throw new Error(`No response from ${provider.label}`);
         }
+        return response.content;
     }
 
     /**
-     * Fallback mock quiz generation (existing logic)
+     * Let user cancellations propagate instead of substituting fallback output
      */
-    private generateMockQuiz(code: string): any {
-        const lines = code.split('\n').filter(line => line.trim() !== '');
-        
-        return {
-            title: 'Code Understanding Quiz (Mock)',
-            questions: [
-                {
-                    id: 'mock-1',
-                    type: 'multiple-choice',
-                    question: 'How many lines of code are in this snippet?',
-                    options: [
-                        `${Math.max(1, lines.length - 2)} lines`,
-                        `${lines.length} lines`,
-                        `${lines.length + 2} lines`,
-                        `${lines.length + 5} lines`
-                    ],
-                    correctAnswer: `${lines.length} lines`,
-                    explanation: `The code snippet contains exactly ${lines.length} lines of code.`,
-                    codeSnippet: code.substring(0, 200) + '...'
-                },
-                {
-                    id: 'mock-2',
-                    type: 'open-ended',
-                    question: 'What is the main purpose of this code?',
-                    correctAnswer: 'This code performs various operations including function definitions and data manipulation.',
-                    explanation: 'The code demonstrates programming concepts and performs specific computational tasks.',
-                    codeSnippet: code.substring(0, 200) + '...'
-                },
-                {
-                    id: 'mock-3',
-                    type: 'code-modification',
-                    question: 'Modify the code to add proper error handling',
-                    startingCode: code.substring(0, 150),
-                    requirement: 'Add try-catch blocks around potentially unsafe operations and provide meaningful error messages',
-                    correctAnswer: 'Code with try-catch blocks and error handling',
-                    explanation: 'Error handling is crucial for robust code. Try-catch blocks help prevent crashes and provide better user experience.'
-                }
-            ],
-            totalQuestions: 3
-        };
+    private rethrowIfCancelled(error: any, signal?: AbortSignal): void {
+        if (signal?.aborted || isCancellationError(error)) {
+            throw error;
+        }
     }
 
     /**
-     * Fallback mock explanation generation (existing logic)
+     * Show a user-facing message for a failed provider call (after retries are exhausted)
      */
-    private generateMockExplanation(code: string): any {
-        const lines = code.split('\n');
-        const nonEmptyLines = lines.filter(line => line.trim() !== '');
-        
-        const lineExplanations = lines.map((line, index) => {
-            if (!line.trim()) return null;
-            
-            return {
-                lineNumber: index + 1,
-                code: line,
-                explanation: 'This line contains code logic that performs a specific operation.',
-                category: 'other' as const,
-                importance: 'medium' as const
-            };
-        }).filter(exp => exp !== null);
-
-        return {
-            title: 'Code Explanation (Mock)',
-            overview: 'This code demonstrates various programming concepts and performs computational tasks.',
-            lineByLineExplanations: lineExplanations,
-            summary: {
-                totalLines: nonEmptyLines.length,
-                functions: [],
-                variables: [],
-                classes: [],
-                keyPurpose: 'This code performs various programming operations.',
-                complexity: 'simple' as const
-            }
-        };
-    }
-
-    /**
-     * Simple fallback evaluation using token overlap
-     */
-    private evaluateShortAnswerFallback(req: AIEvaluateShortAnswerRequest): AIShortAnswerResult {
-        // More lenient normalization that preserves more meaning
-        const normalize = (s: string) => (s || '')
-            .toLowerCase()
-            .replace(/[^\w\s]/g, ' ') // Keep more characters
-            .split(/\s+/)
-            .filter(w => w.length > 1); // Filter out single chars but keep meaningful words
-        
-        const correctWords = new Set(normalize(req.correctAnswer));
-        const userWords = new Set(normalize(req.userAnswer));
-        
-        // Calculate overlap more generously
-        let matches = 0;
-        userWords.forEach(word => {
-            if (correctWords.has(word)) {
-                matches++;
+    private reportProviderError(error: any, provider: AIProvider, fallbackMessage: string): void {
+        if (error.status === 429) {
+            if (error.code === 'rate_limit_exceeded' || error.code === 'rate_limit_error') {
+                vscode.window.showWarningMessage('Rate limit exceeded. Please wait a moment and try again.');
+            } else if (error.code === 'insufficient_quota') {
+                vscode.window.showWarningMessage('OpenAI quota exceeded. Check your billing at platform.openai.com');
             } else {
-                // Check for partial matches (contains or is contained)
-                for (const correctWord of correctWords) {
-                    if (word.includes(correctWord) || correctWord.includes(word)) {
-                        matches += 0.5; // Partial credit for similar words
-                        break;
-                    }
-                }
+                vscode.window.showWarningMessage(`${provider.label} rate limit hit. Using fallback generation.`);
             }
-        });
-        
-        const maxPossible = Math.max(correctWords.size, userWords.size, 1);
-        const similarity = matches / maxPossible;
-        
-        // More lenient thresholds
-        let verdict: 'correct' | 'partial' | 'incorrect' = 'incorrect';
-        let score = 0;
-        
-        if (similarity >= 0.6) { // Lowered from 0.8
-            verdict = 'correct';
-            score = 1;
-        } else if (similarity >= 0.3) { // Lowered from 0.5
-            verdict = 'partial';
-            score = 0.7; // More generous partial credit
-        } else if (userWords.size > 0) { // Give some credit for any attempt
-            verdict = 'partial';
-            score = 0.3;
-        }
-        
-        // More appropriate feedback based on actual score
-        let feedback = '';
-        const scorePercent = Math.round(score * 100);
-        
-        if (scorePercent >= 70) {
-            feedback = 'Great job! Your answer captures the key concepts.';
-        } else if (scorePercent >= 30) {
-            feedback = 'Good effort! You got some key points right.';
-        } else if (scorePercent > 0) {
-            feedback = 'Keep trying! You\'re on the right track but need more detail.';
-        } else {
-            feedback = 'Keep trying! Think about the main concepts and try again.';
-        }
-            
-        return { score, verdict, feedback };
-    }
-
-    /**
-     * Strict fallback code modification evaluation - no AI leniency
-     */
-    private evaluateCodeModificationFallback(req: AICodeModificationRequest): AICodeModificationResult {
-        const issues: string[] = [];
-        const suggestions: string[] = [];
-        let score = 0;
-        
-        // Basic syntax check
-        const userCode = req.userModifiedCode.trim();
-        const originalCode = req.originalCode.trim();
-        
-        if (!userCode) {
-            issues.push('No code provided');
-            return {
-                score: 0,
-                verdict: 'incorrect',
-                feedback: 'No code submitted. Please provide your modified code.',
-                issues,
-                suggestions: ['Submit your modified code']
-            };
-        }
-        
-        // Check if code was actually modified
-        if (userCode === originalCode) {
-            issues.push('Code was not modified');
-            suggestions.push('You need to modify the original code to meet the requirement');
-            score = 0;
+        } else if (error.status === 401) {
+            vscode.window.showErrorMessage(`Invalid ${provider.label} API key. Please check your settings.`);
+        } else if (error.code === 'fixture_missing') {
+            vscode.window.showWarningMessage(`${error.message}. Using fallback generation.`);
+        } else if (error instanceof vscode.LanguageModelError) {
+            // NoPermissions (access not granted), Blocked (e.g. quota) or NotFound
+            vscode.window.showWarningMessage(`${provider.label} unavailable (${error.code || error.message}). Using fallback generation.`);
         } else {
-            // Give some credit for attempting modification
-            score = 0.2;
+            vscode.window.showWarningMessage(fallbackMessage);
         }
-        
-        // Basic syntax checks (simplified)
-        const hasSyntaxErrors = /[\{\[\(](?![^\{\[\(]*[\}\]\)])/.test(userCode) || // Unmatched brackets
-                               /[\}\]\)](?![^\}\]\)]*[\{\[\(])/.test(userCode) || // Extra closing brackets
-                               /[^;]\s*$/.test(userCode.split('\n').pop() || '') && userCode.includes('{'); // Missing semicolons
-        
-        if (hasSyntaxErrors) {
-            issues.push('Potential syntax errors detected');
-            suggestions.push('Check your brackets, parentheses, and semicolons');
-        } else {
-            score += 0.2;
-        }
-        
-        // Check if requirement keywords are present (very basic)
-        const requirementWords = req.requirement.toLowerCase().split(' ').filter(w => w.length > 3);
-        const codeWords = userCode.toLowerCase();
-        const keywordMatches = requirementWords.filter(word => codeWords.includes(word)).length;
-        
-        if (keywordMatches > 0) {
-            score += 0.3 * (keywordMatches / requirementWords.length);
-        } else {
-            issues.push('Code doesn\'t appear to address the requirement');
-            suggestions.push('Re-read the requirement and ensure your code addresses it');
-        }
-        
-        // Determine verdict based on strict criteria
-        let verdict: 'correct' | 'partial' | 'incorrect';
-        if (score >= 0.7) {
-            verdict = 'correct';
-        } else if (score >= 0.3) {
-            verdict = 'partial';
-        } else {
-            verdict = 'incorrect';
-        }
-        
-        // Harsh feedback - no encouragement for poor attempts
-        let feedback: string;
-        if (score >= 0.7) {
-            feedback = 'Code appears to meet basic requirements.';
-        } else if (score >= 0.3) {
-            feedback = 'Code has some issues that need to be addressed.';
-        } else {
-            feedback = 'Code does not meet the requirements. Significant revision needed.';
-        }
-        
-        return { score, verdict, feedback, issues, suggestions };
     }
 
     /**
-     * Fallback mock clarification
+     * Parse a JSON reply, tolerating a surrounding markdown code fence
      */
-    private generateMockClarification(request: AIClarifyRequest): string {
-        return `Here is a clarification for your question: "${request.question}"\n\n- The code operates over ${request.language || 'JavaScript'} constructs.\n- Think about inputs, outputs, and side effects in each function.\n- Focus on how data flows between variables and functions.`;
+    private parseJSONContent(content: string, providerLabel: string): any {
+        const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+        const candidate = (fenced ? fenced[1] : content).trim();
+        try {
+            return JSON.parse(candidate);
+        } catch (error) {
+            console.error(`Failed to parse ${providerLabel} response:`, content);
+            throw new Error(`Invalid JSON response from ${providerLabel}`);
+        }
     }
 
     /**
-     * Update configuration (useful for settings changes)
+     * Reload settings and rebuild the provider; runs on every `codeQuizExplainer` settings change
      */
     updateConfiguration(): void {
         this.config = this.loadConfiguration();
-        this.initializeAI();
+        this.reload();
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
     }
 }
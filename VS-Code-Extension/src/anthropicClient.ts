@@ -0,0 +1,193 @@
+/**
+ * Anthropic Client Module
+ *
+ * Minimal client for the Anthropic Messages API built on axios.
+ * The base URL is configurable so the client can target proxies or a local HTTP stand-in.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { readServerSentEvents } from './streamReader';
+
+export const ANTHROPIC_DEFAULT_BASE_URL = 'https://api.anthropic.com';
+export const ANTHROPIC_API_VERSION = '2023-06-01';
+
+export interface AnthropicClientOptions {
+    apiKey: string;
+    baseURL?: string;
+    timeout?: number; // Default request timeout in milliseconds
+}
+
+export interface AnthropicMessage {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+export interface AnthropicMessageRequest {
+    model: string;
+    messages: AnthropicMessage[];
+    system?: string;
+    temperature?: number;
+    max_tokens: number;
+}
+
+export interface AnthropicContentBlock {
+    type: string;
+    text?: string;
+}
+
+export interface AnthropicRequestOptions {
+    timeout?: number;
+    signal?: AbortSignal;
+}
+
+export interface AnthropicMessageResponse {
+    id: string;
+    model: string;
+    content: AnthropicContentBlock[];
+    stop_reason: string | null;
+    usage?: {
+        input_tokens: number;
+        output_tokens: number;
+    };
+}
+
+/**
+ * Error raised for non-2xx responses; mirrors the `status`/`code` shape of OpenAI SDK errors
+ */
+export class AnthropicAPIError extends Error {
+    constructor(
+        message: string,
+        public readonly status?: number,
+        public readonly code?: string,
+        public readonly headers?: Record<string, string>
+    ) {
+        super(message);
+        this.name = 'AnthropicAPIError';
+    }
+}
+
+export class AnthropicClient {
+    private http: AxiosInstance;
+
+    constructor(options: AnthropicClientOptions) {
+        this.http = axios.create({
+            baseURL: (options.baseURL || ANTHROPIC_DEFAULT_BASE_URL).replace(/\/+$/, ''),
+            timeout: options.timeout ?? 60000,
+            headers: {
+                'content-type': 'application/json',
+                'x-api-key': options.apiKey,
+                'anthropic-version': ANTHROPIC_API_VERSION
+            }
+        });
+    }
+
+    /**
+     * Create a message (non-streaming) and return the raw API response
+     */
+    async createMessage(request: AnthropicMessageRequest, options?: AnthropicRequestOptions): Promise<AnthropicMessageResponse> {
+        try {
+            const response = await this.http.post<AnthropicMessageResponse>('/v1/messages', request, {
+                timeout: options?.timeout,
+                signal: options?.signal
+            });
+            return response.data;
+        } catch (error: any) {
+            throw this.toAPIError(error);
+        }
+    }
+
+    /**
+     * Create a message with `stream: true`, calling `onText` for every text delta.
+     * Resolves with a response assembled from the stream events.
+     */
+    async streamMessage(
+        request: AnthropicMessageRequest,
+        onText: (delta: string) => void,
+        options?: AnthropicRequestOptions
+    ): Promise<AnthropicMessageResponse> {
+        const message: AnthropicMessageResponse = {
+            id: '',
+            model: request.model,
+            content: [{ type: 'text', text: '' }],
+            stop_reason: null,
+            usage: { input_tokens: 0, output_tokens: 0 }
+        };
+
+        try {
+            const response = await this.http.post('/v1/messages', { ...request, stream: true }, {
+                timeout: options?.timeout,
+                signal: options?.signal,
+                responseType: 'stream'
+            });
+
+            for await (const event of readServerSentEvents(response.data)) {
+                const data = JSON.parse(event.data);
+                switch (data.type) {
+                    case 'message_start':
+                        message.id = data.message?.id || '';
+                        message.model = data.message?.model || message.model;
+                        message.usage!.input_tokens = data.message?.usage?.input_tokens || 0;
+                        break;
+                    case 'content_block_delta':
+                        if (data.delta?.type === 'text_delta' && data.delta.text) {
+                            message.content[0].text += data.delta.text;
+                            onText(data.delta.text);
+                        }
+                        break;
+                    case 'message_delta':
+                        message.stop_reason = data.delta?.stop_reason ?? message.stop_reason;
+                        message.usage!.output_tokens = data.usage?.output_tokens || message.usage!.output_tokens;
+                        break;
+                    case 'error':
+                        throw new AnthropicAPIError(data.error?.message || 'Anthropic stream error', undefined, data.error?.type);
+                }
+            }
+        } catch (error: any) {
+            throw error instanceof AnthropicAPIError ? error : this.toAPIError(error);
+        }
+
+        return message;
+    }
+
+    /**
+     * Concatenate the text blocks of a message response
+     */
+    static textOf(response: AnthropicMessageResponse): string {
+        return (response.content || [])
+            .filter(block => block.type === 'text' && typeof block.text === 'string')
+            .map(block => block.text)
+            .join('');
+    }
+
+    /**
+     * Convert an axios error into an AnthropicAPIError (cancellations are returned as-is)
+     */
+    private toAPIError(error: any): Error {
+        if (axios.isCancel(error)) {
+            return error as Error; // Let cancellations propagate unchanged
+        }
+
+        if (!axios.isAxiosError(error)) {
+            return new AnthropicAPIError(String(error?.message || error));
+        }
+
+        if (error.response) {
+            // Streamed requests carry an unread stream instead of a parsed body
+            const body: any = typeof error.response.data?.pipe === 'function' ? {} : error.response.data || {};
+            const type = body.error?.type;
+            const message = body.error?.message || `Anthropic API request failed with status ${error.response.status}`;
+            return new AnthropicAPIError(
+                message,
+                error.response.status,
+                type,
+                error.response.headers as Record<string, string>
+            );
+        }
+
+        if (error.code === 'ECONNABORTED') {
+            return new AnthropicAPIError('Anthropic API request timed out', undefined, 'timeout');
+        }
+
+        return new AnthropicAPIError(error.message || 'Anthropic API request failed');
+    }
+}
@@ -0,0 +1,205 @@
+/**
+ * API Key Store Module
+ *
+ * Keeps provider API keys in VS Code's SecretStorage instead of settings.json,
+ * which is often synced or committed. Keys resolve from secret storage first and
+ * environment variables second. Keys still found in the deprecated plaintext
+ * user settings are moved into secret storage and removed from settings; keys in
+ * workspace settings are only moved when the user agrees.
+ */
+
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import { AIApiKeys } from './aiProvider';
+
+interface KeyDefinition {
+    label: string;
+    setting: string; // Deprecated plaintext setting under `codeQuizExplainer`
+    env: string;
+}
+
+/**
+ * A key found in workspace or folder settings, with where to remove it from
+ */
+interface WorkspaceKey {
+    value: string;
+    config: vscode.WorkspaceConfiguration;
+    target: vscode.ConfigurationTarget;
+}
+
+export const API_KEY_PROVIDERS: Record<string, KeyDefinition> = {
+    openai: { label: 'OpenAI', setting: 'openaiApiKey', env: 'OPENAI_API_KEY' },
+    anthropic: { label: 'Anthropic', setting: 'anthropicApiKey', env: 'ANTHROPIC_API_KEY' }
+};
+
+const SEEN_WORKSPACE_KEYS = 'codeQuizExplainer.seenWorkspaceApiKeys'; // Fingerprints, never the keys themselves
+
+export class ApiKeyStore {
+    constructor(private secrets: vscode.SecretStorage, private workspaceState: vscode.Memento) {}
+
+    /**
+     * Resolve the key of every known provider (secret storage, then environment)
+     */
+    async resolve(): Promise<AIApiKeys> {
+        const keys: AIApiKeys = {};
+        for (const id of Object.keys(API_KEY_PROVIDERS)) {
+            keys[id] = await this.get(id);
+        }
+        return keys;
+    }
+
+    async get(providerId: string): Promise<string | undefined> {
+        const definition = API_KEY_PROVIDERS[providerId];
+        if (!definition) {
+            return undefined;
+        }
+        return (await this.secrets.get(this.secretName(providerId))) || process.env[definition.env] || undefined;
+    }
+
+    async set(providerId: string, apiKey: string): Promise<void> {
+        await this.secrets.store(this.secretName(providerId), apiKey);
+    }
+
+    async delete(providerId: string): Promise<void> {
+        await this.secrets.delete(this.secretName(providerId));
+    }
+
+    /**
+     * Subscribe to changes of any stored provider key; the listener receives the provider id
+     */
+    onDidChange(listener: (providerId: string) => void): vscode.Disposable {
+        return this.secrets.onDidChange(event => {
+            const providerId = Object.keys(API_KEY_PROVIDERS).find(id => this.secretName(id) === event.key);
+            if (providerId) {
+                listener(providerId);
+            }
+        });
+    }
+
+    /**
+     * Ask for a provider's key and store it; an empty entry removes the stored key
+     */
+    async promptForKey(providerId: string): Promise<void> {
+        const definition = API_KEY_PROVIDERS[providerId];
+        const apiKey = await vscode.window.showInputBox({
+            title: `Set ${definition.label} API Key`,
+            prompt: `Stored in VS Code's secret storage. Leave empty to remove the stored key.`,
+            password: true,
+            ignoreFocusOut: true
+        });
+        if (apiKey === undefined) {
+            return; // Dismissed
+        }
+
+        if (apiKey.trim()) {
+            await this.set(providerId, apiKey.trim());
+            vscode.window.showInformationMessage(`${definition.label} API key saved to secure storage.`);
+        } else {
+            await this.delete(providerId);
+            vscode.window.showInformationMessage(`${definition.label} API key removed.`);
+        }
+    }
+
+    /**
+     * Move keys from the deprecated plaintext user settings into secret storage.
+     * Keys in workspace or folder settings are offered separately.
+     */
+    async migrateFromSettings(): Promise<void> {
+        const config = vscode.workspace.getConfiguration('codeQuizExplainer');
+
+        for (const [providerId, definition] of Object.entries(API_KEY_PROVIDERS)) {
+            const globalValue = config.inspect<string>(definition.setting)?.globalValue;
+            if (typeof globalValue === 'string' && globalValue.trim()) {
+                await this.set(providerId, globalValue.trim());
+                await this.removeSetting(config, definition, vscode.ConfigurationTarget.Global);
+
+                console.log(`🔐 Moved ${definition.label} API key from settings to secret storage`);
+                vscode.window.showWarningMessage(
+                    `Your ${definition.label} API key was moved from settings.json to VS Code's secret storage. ` +
+                    'If your settings are synced or committed, consider rotating the key.'
+                );
+            }
+
+            await this.offerWorkspaceKey(providerId, definition);
+        }
+    }
+
+    /**
+     * Keys in workspace or folder settings come with the workspace, e.g. a cloned
+     * repository, so they are only moved when the user agrees and never replace a
+     * stored key. Each key is brought up once per workspace.
+     */
+    private async offerWorkspaceKey(providerId: string, definition: KeyDefinition): Promise<void> {
+        const found = this.workspaceKeys(definition);
+        const seen = this.workspaceState.get<string[]>(SEEN_WORKSPACE_KEYS, []);
+        const unseen = found.filter(entry => !seen.includes(fingerprint(entry.value)));
+        if (unseen.length === 0) {
+            return;
+        }
+        // Recorded before asking, so settings changes while the dialog is open do not ask again
+        await this.workspaceState.update(SEEN_WORKSPACE_KEYS, [...seen, ...unseen.map(entry => fingerprint(entry.value))]);
+
+        if (await this.secrets.get(this.secretName(providerId))) {
+            vscode.window.showWarningMessage(
+                `This workspace's settings contain a ${definition.label} API key. It is ignored in favor of your stored key; ` +
+                `consider removing ${definition.setting} from the workspace settings.`
+            );
+            return;
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `This workspace's settings contain a ${definition.label} API key. Move it to VS Code's secret storage and use it?`,
+            {
+                modal: true,
+                detail: 'Workspace settings are often committed to a repository, so only use a key you trust. ' +
+                    'The key is removed from the workspace settings and used in every workspace.'
+            },
+            'Move Key'
+        );
+        if (choice !== 'Move Key') {
+            return;
+        }
+
+        await this.set(providerId, unseen[0].value.trim());
+        for (const entry of found) {
+            await this.removeSetting(entry.config, definition, entry.target);
+        }
+        console.log(`🔐 Moved ${definition.label} API key from workspace settings to secret storage`);
+    }
+
+    /**
+     * Non-empty keys in the workspace settings and in each folder's settings
+     */
+    private workspaceKeys(definition: KeyDefinition): WorkspaceKey[] {
+        const keys: WorkspaceKey[] = [];
+        const add = (value: string | undefined, config: vscode.WorkspaceConfiguration, target: vscode.ConfigurationTarget) => {
+            if (typeof value === 'string' && value.trim()) {
+                keys.push({ value, config, target });
+            }
+        };
+
+        const config = vscode.workspace.getConfiguration('codeQuizExplainer');
+        add(config.inspect<string>(definition.setting)?.workspaceValue, config, vscode.ConfigurationTarget.Workspace);
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const folderConfig = vscode.workspace.getConfiguration('codeQuizExplainer', folder.uri);
+            add(folderConfig.inspect<string>(definition.setting)?.workspaceFolderValue, folderConfig, vscode.ConfigurationTarget.WorkspaceFolder);
+        }
+        return keys;
+    }
+
+    private async removeSetting(config: vscode.WorkspaceConfiguration, definition: KeyDefinition, target: vscode.ConfigurationTarget): Promise<void> {
+        try {
+            await config.update(definition.setting, undefined, target);
+        } catch (error) {
+            console.warn(`Failed to remove ${definition.setting} from settings:`, error);
+        }
+    }
+
+    private secretName(providerId: string): string {
+        return `codeQuizExplainer.${providerId}ApiKey`;
+    }
+}
+
+function fingerprint(apiKey: string): string {
+    return crypto.createHash('sha256').update(apiKey.trim()).digest('hex');
+}
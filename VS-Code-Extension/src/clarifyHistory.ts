@@ -0,0 +1,109 @@
+/**
+ * Clarify History Module
+ *
+ * Keeps the follow-up questions asked in the explanation panel, and their answers,
+ * in the extension's global storage keyed by a hash of the explained code. Opening
+ * an explanation of the same code again restores the conversation, and later
+ * questions are answered with the earlier ones as context.
+ */
+
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+
+export interface ClarifyTurn {
+    question: string;
+    answer: string;
+    askedAt: number;
+}
+
+interface Conversation {
+    turns: ClarifyTurn[];
+    updatedAt: number;
+}
+
+const HISTORY_FILE = 'clarify-history.json';
+const MAX_CONVERSATIONS = 100; // Least recently updated conversations are dropped first
+const MAX_TURNS = 50; // Per conversation; the oldest turns are dropped first
+
+export class ClarifyHistory {
+    private conversations?: Map<string, Conversation>;
+    private loading?: Promise<Map<string, Conversation>>;
+    private fileUri: vscode.Uri;
+
+    constructor(private storageUri: vscode.Uri) {
+        this.fileUri = vscode.Uri.joinPath(storageUri, HISTORY_FILE);
+    }
+
+    /**
+     * Conversations belong to the code itself, wherever it was explained from
+     */
+    static key(code: string): string {
+        return crypto.createHash('sha256').update(code).digest('hex');
+    }
+
+    /**
+     * Turns asked about this code, oldest first
+     */
+    async get(code: string): Promise<ClarifyTurn[]> {
+        const conversations = await this.load();
+        return [...(conversations.get(ClarifyHistory.key(code))?.turns ?? [])];
+    }
+
+    async append(code: string, turn: ClarifyTurn): Promise<void> {
+        const conversations = await this.load();
+        const key = ClarifyHistory.key(code);
+        const turns = [...(conversations.get(key)?.turns ?? []), turn].slice(-MAX_TURNS);
+        conversations.set(key, { turns, updatedAt: Date.now() });
+        this.evict(conversations);
+        await this.save();
+    }
+
+    async clear(code: string): Promise<void> {
+        const conversations = await this.load();
+        if (conversations.delete(ClarifyHistory.key(code))) {
+            await this.save();
+        }
+    }
+
+    private evict(conversations: Map<string, Conversation>): void {
+        const byUpdate = [...conversations.entries()].sort((a, b) => a[1].updatedAt - b[1].updatedAt);
+        for (const [key] of byUpdate.slice(0, Math.max(0, conversations.size - MAX_CONVERSATIONS))) {
+            conversations.delete(key);
+        }
+    }
+
+    private async load(): Promise<Map<string, Conversation>> {
+        if (this.conversations) {
+            return this.conversations;
+        }
+        if (!this.loading) {
+            this.loading = this.readFile().then(conversations => this.conversations = conversations);
+        }
+        return this.loading;
+    }
+
+    private async readFile(): Promise<Map<string, Conversation>> {
+        try {
+            const data = await vscode.workspace.fs.readFile(this.fileUri);
+            const parsed = JSON.parse(Buffer.from(data).toString('utf8'));
+            return new Map(Object.entries(parsed as Record<string, Conversation>));
+        } catch {
+            // Missing or corrupt history files start out empty
+            return new Map();
+        }
+    }
+
+    private async save(): Promise<void> {
+        if (!this.conversations) {
+            return;
+        }
+
+        try {
+            await vscode.workspace.fs.createDirectory(this.storageUri);
+            const data = JSON.stringify(Object.fromEntries(this.conversations));
+            await vscode.workspace.fs.writeFile(this.fileUri, Buffer.from(data, 'utf8'));
+        } catch (error) {
+            console.warn('Failed to persist clarify history:', error);
+        }
+    }
+}
@@ -0,0 +1,86 @@
+/**
+ * Code Analyzer Module
+ *
+ * Syntax-tree analysis for the rule-based fallback quizzes and explanations. Every
+ * supported language produces the same CodeAnalysis: declarations with their scope,
+ * parameters and return type, imports, call sites and control flow, each tagged with
+ * the line it starts on. Languages without an analyzer yield undefined and callers
+ * keep their line-based heuristics.
+ */
+
+import { DetectedLanguage } from './languageDetector';
+import { analyzeTypeScript } from './typescriptAnalyzer';
+import { analyzeWithTreeSitter, hasGrammar } from './treeSitterAnalyzer';
+
+export type CodeSymbolKind = 'function' | 'method' | 'class' | 'struct' | 'interface' | 'type' | 'enum' | 'variable' | 'constant' | 'property';
+
+export interface CodeParameter {
+    name: string;
+    type?: string; // Declared, or inferred where the analyzer can
+    optional: boolean;
+}
+
+export interface CodeSymbol {
+    kind: CodeSymbolKind;
+    name: string;
+    line: number; // 1-based
+    endLine: number;
+    scope?: string; // Enclosing classes and functions, e.g. `Cart.addItem`
+    parameters?: CodeParameter[]; // Functions and methods
+    returnType?: string;
+    type?: string; // Variables and properties
+    extends?: string; // Base class or interfaces
+    async?: boolean;
+    exported?: boolean;
+}
+
+export interface CodeImport {
+    module: string;
+    names: string[]; // Local names the import binds
+    line: number;
+}
+
+export interface CodeCall {
+    callee: string; // As written, e.g. `items.push` or `new Map`
+    line: number;
+    scope?: string;
+}
+
+export type ControlFlowKind = 'if' | 'for' | 'while' | 'do' | 'switch' | 'try' | 'return' | 'throw';
+
+export interface ControlFlowStatement {
+    kind: ControlFlowKind;
+    line: number;
+    endLine: number; // Last line of the statement, including its body
+    scope?: string;
+}
+
+export interface CodeAnalysis {
+    symbols: CodeSymbol[];
+    imports: CodeImport[];
+    calls: CodeCall[];
+    controlFlow: ControlFlowStatement[];
+}
+
+/**
+ * Analyze code in the detected language, or undefined when the language has no
+ * analyzer or the code cannot be parsed
+ */
+export async function analyzeCode(code: string, language: DetectedLanguage): Promise<CodeAnalysis | undefined> {
+    try {
+        if (language.name === 'JavaScript' || language.name === 'TypeScript') {
+            return analyzeTypeScript(code, language.name === 'TypeScript', language.id === 'typescriptreact');
+        }
+        return hasGrammar(language.name) ? await analyzeWithTreeSitter(code, language.name) : undefined;
+    } catch (error) {
+        console.warn(`Failed to analyze ${language.name} code:`, error);
+        return undefined;
+    }
+}
+
+/**
+ * Name of a symbol including its scope, e.g. `Cart.addItem`
+ */
+export function qualifiedName(symbol: CodeSymbol): string {
+    return symbol.scope ? `${symbol.scope}.${symbol.name}` : symbol.name;
+}
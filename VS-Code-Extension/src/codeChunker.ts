@@ -0,0 +1,129 @@
+/**
+ * Code Chunker Module
+ *
+ * Estimates how many tokens code will cost in a prompt and splits code that exceeds
+ * the `tokenBudget` setting into chunks at top-level declarations, so large files
+ * can be explained and quizzed piece by piece. Every chunk records the line it
+ * starts on so per-chunk results can be mapped back onto the original code.
+ */
+
+export interface CodeChunk {
+    code: string;
+    startLine: number; // 1-based line of the chunk's first line in the original code
+    endLine: number;
+    tokens: number; // Estimated
+}
+
+interface Segment {
+    start: number; // 0-based, inclusive
+    end: number; // 0-based, exclusive
+    tokens: number;
+}
+
+// Source code averages fewer characters per token than prose; overestimating is the safe side
+const CHARS_PER_TOKEN = 3.5;
+
+// Column-0 lines that continue the previous declaration rather than starting a new one
+const CONTINUATION = /^([}\])]|(else|elif|except|catch|finally|end|fi|done|esac)\b)/;
+
+// Column-0 comments and decorators stay attached to the declaration that follows them
+const ANNOTATION = /^(\/\/|\/\*|\*|#|@|--|;)/;
+
+/**
+ * Rough token count for a piece of text, without loading a tokenizer
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Split code into chunks of at most `maxTokens` estimated tokens, cutting between
+ * top-level declarations where possible. Code within the budget, or a budget of 0,
+ * yields a single chunk.
+ */
+export function splitIntoChunks(code: string, maxTokens: number): CodeChunk[] {
+    const lines = code.split('\n');
+    const total = estimateTokens(code);
+    if (maxTokens <= 0 || total <= maxTokens) {
+        return [{ code, startLine: 1, endLine: lines.length, tokens: total }];
+    }
+
+    const segments = findSegments(lines).flatMap(segment =>
+        segment.tokens > maxTokens ? splitSegment(lines, segment, maxTokens) : [segment]
+    );
+
+    // Pack consecutive segments greedily so chunks stay close to the budget
+    const chunks: CodeChunk[] = [];
+    let current: Segment | undefined;
+    const flush = () => {
+        if (!current) {
+            return;
+        }
+        const chunkCode = lines.slice(current.start, current.end).join('\n');
+        if (chunkCode.trim()) {
+            chunks.push({ code: chunkCode, startLine: current.start + 1, endLine: current.end, tokens: current.tokens });
+        }
+        current = undefined;
+    };
+
+    for (const segment of segments) {
+        if (current && current.tokens + segment.tokens > maxTokens) {
+            flush();
+        }
+        current = current
+            ? { start: current.start, end: segment.end, tokens: current.tokens + segment.tokens }
+            : { ...segment };
+    }
+    flush();
+
+    return chunks;
+}
+
+/**
+ * Group lines into top-level declarations: a segment starts at every unindented line
+ * that does not continue the previous one (closing brackets, `else`, ...)
+ */
+function findSegments(lines: string[]): Segment[] {
+    const starts = [0];
+    for (let index = 1; index < lines.length; index++) {
+        const line = lines[index];
+        if (/^\S/.test(line) && !CONTINUATION.test(line) && !ANNOTATION.test(lines[index - 1])) {
+            starts.push(index);
+        }
+    }
+
+    return starts.map((start, index) => {
+        const end = starts[index + 1] ?? lines.length;
+        return { start, end, tokens: lineTokens(lines, start, end) };
+    });
+}
+
+/**
+ * Cut a declaration that is larger than the budget on line boundaries
+ */
+function splitSegment(lines: string[], segment: Segment, maxTokens: number): Segment[] {
+    const pieces: Segment[] = [];
+    let start = segment.start;
+    let tokens = 0;
+
+    for (let index = segment.start; index < segment.end; index++) {
+        const cost = estimateTokens(lines[index] + '\n');
+        if (tokens > 0 && tokens + cost > maxTokens) {
+            pieces.push({ start, end: index, tokens });
+            start = index;
+            tokens = 0;
+        }
+        tokens += cost;
+    }
+    pieces.push({ start, end: segment.end, tokens });
+
+    return pieces;
+}
+
+function lineTokens(lines: string[], start: number, end: number): number {
+    let tokens = 0;
+    for (let index = start; index < end; index++) {
+        tokens += estimateTokens(lines[index] + '\n');
+    }
+    return tokens;
+}
@@ -3,18 +3,36 @@
  * 
  * This module handles breaking down code line by line and providing explanations.
  * Now supports AI-powered explanations with fallback to rule-based analysis.
+ * Explanations are hierarchical: the overview covers the file, sections cover
+ * declarations and the blocks inside them, and line explanations sit in the
+ * innermost section that contains them.
  */
 
 import * as vscode from 'vscode';
-import { AIService } from './aiService';
+import { AIRequestOptions, AIService } from './aiService';
+import { isCancellationError } from './aiProvider';
+import { ExplanationStreamHandlers } from './explanationStreamParser';
+import { CodeChunk, splitIntoChunks } from './codeChunker';
+import { analyzeCode, CodeAnalysis, CodeSymbol, CodeSymbolKind, ControlFlowKind, qualifiedName } from './codeAnalyzer';
+import { DetectedLanguage } from './languageDetector';
 
 export interface CodeExplanation {
     title: string;
     overview: string;
+    sections?: ExplanationSection[]; // Top-level declarations and blocks, in line order
     lineByLineExplanations: LineExplanation[];
     summary: CodeSummary;
 }
 
+export interface ExplanationSection {
+    kind: 'declaration' | 'block';
+    title: string; // e.g. `addItem(item, quantity)` or `for loop`
+    startLine: number;
+    endLine: number;
+    explanation: string; // What the section as a whole does
+    sections?: ExplanationSection[]; // Nested declarations and blocks, in line order
+}
+
 export interface LineExplanation {
     lineNumber: number;
     code: string;
@@ -32,57 +50,172 @@ export interface CodeSummary {
     complexity: 'simple' | 'moderate' | 'complex';
 }
 
+export interface ExplainCodeOptions extends AIRequestOptions {
+    stream?: ExplanationStreamHandlers; // Receive partial results while the AI reply arrives
+}
+
+/**
+ * Declarations that get their own section when they span more than one line
+ */
+const SECTION_SYMBOLS: CodeSymbolKind[] = ['function', 'method', 'class', 'struct', 'interface', 'enum'];
+
+/**
+ * Statements that get their own section, with the title it is shown under
+ */
+const SECTION_BLOCKS: Partial<Record<ControlFlowKind, string>> = {
+    if: 'if statement',
+    for: 'for loop',
+    while: 'while loop',
+    do: 'do-while loop',
+    switch: 'switch statement',
+    try: 'try block'
+};
+
+const MIN_BLOCK_LINES = 3; // Shorter blocks read fine line by line
+
 export class CodeExplainer {
     private aiService: AIService;
     
-    constructor() {
-        this.aiService = new AIService();
+    constructor(aiService: AIService) {
+        this.aiService = aiService;
     }
     
     /**
      * Main method to generate explanations for code
      * Uses AI when configured, falls back to rule-based analysis
      */
-    async explainCode(code: string, fileExtension?: string): Promise<CodeExplanation> {
+    async explainCode(code: string, detected: DetectedLanguage, options: ExplainCodeOptions = {}): Promise<CodeExplanation> {
         console.log('Generating explanation for code:', code.substring(0, 100) + '...');
         
         try {
             // Get user preferences
             const config = vscode.workspace.getConfiguration('codeQuizExplainer');
             const detailLevel = config.get('explanationDetail', 'detailed') as 'basic' | 'detailed' | 'expert';
-            const language = this.detectLanguageFromExtension(fileExtension) || this.detectLanguage(code);
+            const language = detected.name;
             
-            console.log(`Detected language: ${language} (from extension: ${fileExtension})`);
+            console.log(`Detected language: ${language} (from ${detected.source}, confidence ${detected.confidence})`);
             
+            // Large code is explained in chunks that fit the token budget
+            const chunks = splitIntoChunks(code, Math.max(0, config.get<number>('tokenBudget', 6000)));
+            if (chunks.length > 1) {
+                console.log(`Explaining code in ${chunks.length} chunks`);
+                return this.withSections(code, detected, await this.explainInChunks(code, chunks, language, detailLevel, options));
+            }
+
             // Try AI generation first
-            const aiExplanation = await this.aiService.generateExplanation({
-                code,
-                language,
-                detailLevel
-            });
+            const request = { code, language, detailLevel };
+            const aiExplanation = options.stream
+                ? await this.aiService.streamExplanation(request, options.stream, options)
+                : await this.aiService.generateExplanation(request, options);
             
-            return aiExplanation;
+            return this.withSections(code, detected, aiExplanation);
             
         } catch (error) {
+            if (options.signal?.aborted || options.token?.isCancellationRequested || isCancellationError(error)) {
+                throw error;
+            }
             console.log('AI explanation failed, using fallback:', error);
             
             // Fallback to rule-based analysis
-            const language = this.detectLanguageFromExtension(fileExtension) || this.detectLanguage(code);
-            return this.generateFallbackExplanation(code, language);
+            return this.generateFallbackExplanation(code, detected);
         }
     }
 
+    /**
+     * Explain each chunk in order and merge the results, shifting line numbers
+     * from chunk-relative to absolute. Only the first chunk streams its title and overview.
+     */
+    private async explainInChunks(
+        code: string,
+        chunks: CodeChunk[],
+        language: string,
+        detailLevel: 'basic' | 'detailed' | 'expert',
+        options: ExplainCodeOptions
+    ): Promise<CodeExplanation> {
+        const parts: CodeExplanation[] = [];
+
+        for (const [index, chunk] of chunks.entries()) {
+            const offset = chunk.startLine - 1;
+            const request = { code: chunk.code, language, detailLevel };
+            const stream = options.stream;
+            const part = stream
+                ? await this.aiService.streamExplanation(request, {
+                    onField: index === 0 ? stream.onField : undefined,
+                    onLine: line => stream.onLine?.({ ...line, lineNumber: line.lineNumber + offset })
+                }, options)
+                : await this.aiService.generateExplanation(request, options);
+
+            parts.push({
+                ...part,
+                sections: part.sections && this.shiftSections(part.sections, offset),
+                lineByLineExplanations: part.lineByLineExplanations.map(line => ({ ...line, lineNumber: line.lineNumber + offset }))
+            });
+        }
+
+        return this.mergeExplanations(code, chunks, parts);
+    }
+
+    private mergeExplanations(code: string, chunks: CodeChunk[], parts: CodeExplanation[]): CodeExplanation {
+        const unique = (values: string[]) => [...new Set(values)];
+        const complexities: CodeSummary['complexity'][] = ['simple', 'moderate', 'complex'];
+        const complexity = parts.reduce(
+            (highest, part) => Math.max(highest, complexities.indexOf(part.summary.complexity)),
+            0
+        );
+
+        return {
+            title: parts[0].title,
+            overview: parts
+                .map((part, index) => `Lines ${chunks[index].startLine}–${chunks[index].endLine}: ${part.overview}`)
+                .join('\n\n'),
+            // An outline with gaps would be misleading, so a part without sections drops them all
+            sections: parts.every(part => part.sections?.length)
+                ? parts.flatMap(part => part.sections ?? [])
+                : undefined,
+            lineByLineExplanations: parts.flatMap(part => part.lineByLineExplanations),
+            summary: {
+                totalLines: code.split('\n').length,
+                functions: unique(parts.flatMap(part => part.summary.functions)),
+                variables: unique(parts.flatMap(part => part.summary.variables)),
+                classes: unique(parts.flatMap(part => part.summary.classes)),
+                keyPurpose: parts[0].summary.keyPurpose,
+                complexity: complexities[complexity]
+            }
+        };
+    }
+
+    private shiftSections(sections: ExplanationSection[], offset: number): ExplanationSection[] {
+        return sections.map(section => ({
+            ...section,
+            startLine: section.startLine + offset,
+            endLine: section.endLine + offset,
+            sections: section.sections && this.shiftSections(section.sections, offset)
+        }));
+    }
+
+    /**
+     * Outline the explanation from the syntax tree when the AI reply has no sections,
+     * e.g. with a custom prompt template or the mock provider
+     */
+    private async withSections(code: string, language: DetectedLanguage, explanation: CodeExplanation): Promise<CodeExplanation> {
+        if (explanation.sections?.length) {
+            return explanation;
+        }
+        const analysis = await analyzeCode(code, language);
+        return analysis ? { ...explanation, sections: this.buildSections(analysis) } : explanation;
+    }
 
     /**
      * Fallback explanation generation using rule-based approach
      */
-    private generateFallbackExplanation(code: string, language: string): CodeExplanation {
+    private async generateFallbackExplanation(code: string, language: DetectedLanguage): Promise<CodeExplanation> {
         // Parse the code into lines and analyze each one
         const lines = code.split('\n');
-        const lineExplanations = this.analyzeLines(lines);
+        const analysis = await analyzeCode(code, language);
+        const lineExplanations = this.analyzeLines(lines, analysis);
         
         // Generate summary information
-        const summary = this.generateSummary(code, lineExplanations);
+        const summary = this.generateSummary(code, lineExplanations, analysis);
         
         // Create overview
         const overview = this.generateOverview(code, summary);
@@ -90,15 +223,90 @@ export class CodeExplainer {
         return {
             title: 'Code Explanation',
             overview: overview,
+            sections: analysis && this.buildSections(analysis),
             lineByLineExplanations: lineExplanations,
             summary: summary
         };
     }
 
+    /**
+     * Sections for multi-line declarations and blocks, nested by the lines they span
+     */
+    private buildSections(analysis: CodeAnalysis): ExplanationSection[] {
+        const declarations = analysis.symbols
+            .filter(symbol => SECTION_SYMBOLS.includes(symbol.kind) && symbol.endLine > symbol.line)
+            .map((symbol): ExplanationSection => ({
+                kind: 'declaration',
+                title: this.sectionTitle(symbol),
+                startLine: symbol.line,
+                endLine: symbol.endLine,
+                explanation: `${this.describeSymbol(symbol)}${this.describeContents(analysis, symbol.line, symbol.endLine)}`
+            }));
+        const blocks = analysis.controlFlow
+            .filter(statement => SECTION_BLOCKS[statement.kind] && statement.endLine - statement.line + 1 >= MIN_BLOCK_LINES)
+            .map((statement): ExplanationSection => ({
+                kind: 'block',
+                title: SECTION_BLOCKS[statement.kind] ?? statement.kind,
+                startLine: statement.line,
+                endLine: statement.endLine,
+                explanation: `${this.explainControlFlow(statement.kind)}${this.describeContents(analysis, statement.line, statement.endLine)}`
+            }));
+
+        // Outer sections sort before the sections they contain
+        const sorted = [...declarations, ...blocks].sort((a, b) => a.startLine - b.startLine || b.endLine - a.endLine);
+        const roots: ExplanationSection[] = [];
+        const open: ExplanationSection[] = [];
+        for (const section of sorted) {
+            while (open.length > 0 && open[open.length - 1].endLine < section.endLine) {
+                open.pop();
+            }
+            const parent = open[open.length - 1];
+            if (parent) {
+                (parent.sections ??= []).push(section);
+            } else {
+                roots.push(section);
+            }
+            open.push(section);
+        }
+        return roots;
+    }
+
+    private sectionTitle(symbol: CodeSymbol): string {
+        if (symbol.kind === 'function' || symbol.kind === 'method') {
+            const parameters = (symbol.parameters ?? []).map(parameter => parameter.name).join(', ');
+            return symbol.name === 'constructor' ? `${symbol.scope} constructor(${parameters})` : `${symbol.name}(${parameters})`;
+        }
+        return `${symbol.kind} ${symbol.name}`;
+    }
+
+    /**
+     * What happens between two lines: the functions called and the loops and
+     * conditionals nested there
+     */
+    private describeContents(analysis: CodeAnalysis, startLine: number, endLine: number): string {
+        const inside = <T extends { line: number }>(items: T[]) => items.filter(item => item.line > startLine && item.line <= endLine);
+        const callees = [...new Set(inside(analysis.calls).map(call => call.callee))];
+        const flow = inside(analysis.controlFlow);
+        const loops = flow.filter(statement => ['for', 'while', 'do'].includes(statement.kind)).length;
+        const conditionals = flow.filter(statement => statement.kind === 'if' || statement.kind === 'switch').length;
+        const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+        const parts: string[] = [];
+        if (callees.length > 0) {
+            const shown = callees.slice(0, 4).map(callee => `"${callee}"`);
+            parts.push(`calls ${shown.join(', ')}${callees.length > shown.length ? ` and ${callees.length - shown.length} more` : ''}`);
+        }
+        if (loops > 0 || conditionals > 0) {
+            parts.push(`contains ${[loops > 0 ? plural(loops, 'loop') : '', conditionals > 0 ? plural(conditionals, 'conditional') : ''].filter(Boolean).join(' and ')}`);
+        }
+        return parts.length > 0 ? ` Inside, it ${parts.join(' and ')}.` : '';
+    }
+
     /**
      * Analyze each line of code and provide explanations (fallback method)
+     * Lines the syntax-tree analysis says nothing about are explained by pattern
      */
-    private analyzeLines(lines: string[]): LineExplanation[] {
+    private analyzeLines(lines: string[], analysis?: CodeAnalysis): LineExplanation[] {
         const explanations: LineExplanation[] = [];
 
         lines.forEach((line, index) => {
@@ -109,13 +317,112 @@ export class CodeExplainer {
                 return;
             }
 
-            const explanation = this.explainLine(trimmedLine, index + 1);
+            const explanation = (analysis && this.explainAnalyzedLine(trimmedLine, index + 1, analysis))
+                || this.explainLine(trimmedLine, index + 1);
             explanations.push(explanation);
         });
 
         return explanations;
     }
 
+    /**
+     * Explain a line from the syntax-tree analysis: the declaration, control flow,
+     * import or call that starts on it. Undefined when nothing starts on the line.
+     */
+    private explainAnalyzedLine(line: string, lineNumber: number, analysis: CodeAnalysis): LineExplanation | undefined {
+        const onLine = <T extends { line: number }>(items: T[]) => items.find(item => item.line === lineNumber);
+        const symbols = analysis.symbols.filter(symbol => symbol.line === lineNumber);
+        const isValue = (symbol: CodeSymbol) => ['variable', 'constant', 'property'].includes(symbol.kind);
+        const statement = onLine(analysis.controlFlow);
+        const imported = onLine(analysis.imports);
+        const call = onLine(analysis.calls);
+
+        // Declarations outrank the statements inside them; `for (let i = 0; ...)` is a loop first
+        const declaration = symbols.find(symbol => !isValue(symbol));
+        const value = symbols.find(isValue);
+        let category: LineExplanation['category'];
+        let explanation: string;
+        let importance: LineExplanation['importance'] = 'medium';
+
+        if (declaration) {
+            category = 'declaration';
+            explanation = this.describeSymbol(declaration);
+            importance = 'high';
+        } else if (statement && statement.kind !== 'return' && statement.kind !== 'throw') {
+            category = 'control-flow';
+            explanation = this.explainControlFlow(statement.kind);
+            importance = 'high';
+        } else if (value) {
+            category = 'declaration';
+            explanation = this.describeSymbol(value);
+        } else if (imported) {
+            category = 'declaration';
+            explanation = imported.names.length > 0
+                ? `This imports ${imported.names.map(name => `"${name}"`).join(', ')} from the "${imported.module}" module.`
+                : `This loads the "${imported.module}" module for its side effects.`;
+        } else if (statement) {
+            category = 'control-flow';
+            const from = statement.scope ? `"${statement.scope}"` : 'the function';
+            explanation = statement.kind === 'return'
+                ? `This returns a value from ${from} and exits it.`
+                : `This throws an error, leaving ${from} unless a surrounding try/catch handles it.`;
+            importance = 'high';
+        } else if (call) {
+            category = 'function-call';
+            explanation = call.callee.startsWith('new ')
+                ? `This creates a new "${call.callee.slice(4)}" instance${call.scope ? ` inside "${call.scope}"` : ''}.`
+                : `This calls "${call.callee}"${call.scope ? ` from inside "${call.scope}"` : ''} to execute its code.`;
+        } else {
+            return undefined;
+        }
+
+        return { lineNumber, code: line, explanation, category, importance };
+    }
+
+    /**
+     * Describe a declaration with the details the analysis found: scope, parameters,
+     * return type, base class and type
+     */
+    private describeSymbol(symbol: CodeSymbol): string {
+        const name = `"${symbol.name}"`;
+        const inScope = symbol.scope ? ` inside "${symbol.scope}"` : '';
+        const modifiers = [symbol.async ? 'async' : '', symbol.exported ? 'exported' : ''].filter(Boolean);
+        const described = (noun: string) => {
+            const words = [...modifiers, noun].join(' ');
+            return `${/^[aeiou]/.test(words) ? 'an' : 'a'} ${words}`;
+        };
+        const signature = () => {
+            const parameters = symbol.parameters ?? [];
+            const takes = parameters.length > 0
+                ? `It takes ${parameters.map(parameter => `${parameter.name}${parameter.optional ? ' (optional)' : ''}${parameter.type ? `: ${parameter.type}` : ''}`).join(', ')}`
+                : 'It takes no parameters';
+            return symbol.returnType ? `${takes} and returns ${symbol.returnType}.` : `${takes}.`;
+        };
+
+        switch (symbol.kind) {
+            case 'function':
+                return `This declares ${described('function')} named ${name}${inScope}. ${signature()}`;
+            case 'method':
+                return symbol.name === 'constructor'
+                    ? `This declares the constructor of "${symbol.scope}", which runs when a new instance is created. ${signature()}`
+                    : `This declares ${described('method')} ${name} of "${symbol.scope}". ${signature()}`;
+            case 'class':
+                return `This declares ${described('class')} named ${name}${symbol.extends ? ` that extends ${symbol.extends}` : ''}, a blueprint for creating objects.`;
+            case 'struct':
+                return `This declares ${described('struct')} named ${name}, a type that groups related fields.`;
+            case 'interface':
+                return `This declares ${described('interface')} named ${name}${symbol.extends ? ` that extends ${symbol.extends}` : ''}, describing what implementing types must provide.`;
+            case 'type':
+                return `This declares ${described('type alias')} named ${name}, a name for a type.`;
+            case 'enum':
+                return `This declares ${described('enum')} named ${name}, a set of named constants.`;
+            case 'property':
+                return `This declares the property ${name} of "${symbol.scope}"${symbol.type ? ` with type ${symbol.type}` : ''}.`;
+            default:
+                return `This declares ${described(symbol.kind)} named ${name}${symbol.type ? ` of type ${symbol.type}` : ''}${inScope}.`;
+        }
+    }
+
     /**
      * Explain a single line of code
      * This uses pattern matching - can be replaced with AI analysis
@@ -216,13 +523,16 @@ export class CodeExplainer {
     /**
      * Generate a summary of the entire code
      */
-    private generateSummary(code: string, lineExplanations: LineExplanation[]): CodeSummary {
+    private generateSummary(code: string, lineExplanations: LineExplanation[], analysis?: CodeAnalysis): CodeSummary {
         const lines = code.split('\n');
         
-        // Extract functions, variables, and classes
-        const functions = this.extractFunctions(code);
-        const variables = this.extractVariables(code);
-        const classes = this.extractClasses(code);
+        // Extract functions, variables, and classes, from the syntax tree where there is one
+        const named = (kinds: CodeSymbol['kind'][], qualify = false) => [...new Set(analysis!.symbols
+            .filter(symbol => kinds.includes(symbol.kind))
+            .map(symbol => qualify ? qualifiedName(symbol) : symbol.name))];
+        const functions = analysis ? named(['function', 'method'], true) : this.extractFunctions(code);
+        const variables = analysis ? named(['variable', 'constant']) : this.extractVariables(code);
+        const classes = analysis ? named(['class']) : this.extractClasses(code);
         
         // Determine complexity based on various factors
         const complexity = this.determineComplexity(lineExplanations, functions, classes);
@@ -301,6 +611,10 @@ export class CodeExplainer {
                 return 'This is a loop that repeats code as long as a condition remains true.';
             case 'switch':
                 return 'This is a switch statement that executes different code based on different values.';
+            case 'do':
+                return 'This is a loop that runs its code once and then repeats it while a condition remains true.';
+            case 'try':
+                return 'This starts a try block; errors thrown inside it are handled by the catch or finally block that follows.';
             default:
                 return 'This is a control flow statement that affects how the program executes.';
         }
@@ -381,132 +695,5 @@ export class CodeExplainer {
             return 'This appears to be a simple script that performs basic operations.';
         }
     }
-
-    /**
-     * Simple language detection based on syntax patterns
-     */
-    private detectLanguage(code: string): string {
-        // Simple language detection based on common patterns
-        if (code.includes('function') || code.includes('const') || code.includes('let') || code.includes('=>')) {
-            return 'JavaScript';
-        } else if (code.includes('def ') || code.includes('import ') || code.includes('print(')) {
-            return 'Python';
-        } else if (code.includes('public class') || code.includes('private ') || code.includes('System.out')) {
-            return 'Java';
-        } else if (code.includes('#include') || code.includes('std::')) {
-            return 'C++';
-        } else if (code.includes('fn ') || code.includes('let mut')) {
-            return 'Rust';
-        } else if (code.includes('func ') || code.includes('package main')) {
-            return 'Go';
-        }
-        return 'JavaScript'; // Default fallback
-    }
-
-    /**
-     * Detect language from file extension (more reliable than pattern matching)
-     */
-    private detectLanguageFromExtension(extension?: string): string | null {
-        if (!extension) return null;
-        
-        const ext = extension.toLowerCase();
-        
-        switch (ext) {
-            case 'js':
-            case 'jsx':
-            case 'mjs':
-                return 'JavaScript';
-            
-            case 'ts':
-            case 'tsx':
-                return 'TypeScript';
-            
-            case 'py':
-            case 'pyw':
-            case 'pyc':
-                return 'Python';
-            
-            case 'java':
-                return 'Java';
-            
-            case 'cs':
-                return 'C#';
-            
-            case 'cpp':
-            case 'cc':
-            case 'cxx':
-            case 'c++':
-                return 'C++';
-            
-            case 'c':
-            case 'h':
-                return 'C';
-            
-            case 'go':
-                return 'Go';
-            
-            case 'rs':
-                return 'Rust';
-            
-            case 'php':
-                return 'PHP';
-            
-            case 'rb':
-                return 'Ruby';
-            
-            case 'swift':
-                return 'Swift';
-            
-            case 'kt':
-            case 'kts':
-                return 'Kotlin';
-            
-            case 'scala':
-                return 'Scala';
-            
-            case 'r':
-                return 'R';
-            
-            case 'dart':
-                return 'Dart';
-            
-            case 'lua':
-                return 'Lua';
-            
-            case 'pl':
-            case 'pm':
-                return 'Perl';
-            
-            case 'sh':
-            case 'bash':
-                return 'Shell';
-            
-            case 'ps1':
-                return 'PowerShell';
-            
-            case 'sql':
-                return 'SQL';
-            
-            case 'html':
-            case 'htm':
-                return 'HTML';
-            
-            case 'css':
-                return 'CSS';
-            
-            case 'json':
-                return 'JSON';
-            
-            case 'xml':
-                return 'XML';
-            
-            case 'yaml':
-            case 'yml':
-                return 'YAML';
-            
-            default:
-                return null; // Unknown extension
-        }
-    }
 }
 
@@ -0,0 +1,93 @@
+/**
+ * Declaration Lenses Module
+ *
+ * Puts "Explain" and "Quiz me" CodeLenses above every function, method and class
+ * the code analyzer finds, so a single declaration can be explained or quizzed
+ * without selecting it first. The lenses run the regular commands with the
+ * declaration's range. `codeLens` can be turned off per language.
+ */
+
+import * as vscode from 'vscode';
+import { analyzeCode, CodeAnalysis, CodeSymbolKind, qualifiedName } from './codeAnalyzer';
+import { detectLanguage } from './languageDetector';
+
+/**
+ * Declarations that get lenses; structs stand in for classes in Go, Rust and C
+ */
+const LENS_SYMBOLS: CodeSymbolKind[] = ['function', 'method', 'class', 'struct'];
+
+export class DeclarationLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+    private changeEmitter = new vscode.EventEmitter<void>();
+    private analyses = new Map<string, { version: number; analysis: Promise<CodeAnalysis | undefined> }>();
+    private disposables: vscode.Disposable[] = [];
+
+    readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+    constructor() {
+        this.disposables.push(
+            this.changeEmitter,
+            vscode.workspace.onDidCloseTextDocument(document => this.analyses.delete(document.uri.toString())),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('codeQuizExplainer.codeLens')) {
+                    this.changeEmitter.fire();
+                }
+            })
+        );
+    }
+
+    async provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.CodeLens[]> {
+        if (!vscode.workspace.getConfiguration('codeQuizExplainer', document).get<boolean>('codeLens', true)) {
+            return [];
+        }
+
+        const analysis = await this.analyze(document);
+        if (!analysis || token.isCancellationRequested) {
+            return [];
+        }
+
+        return analysis.symbols
+            .filter(symbol => LENS_SYMBOLS.includes(symbol.kind) && symbol.endLine <= document.lineCount)
+            .flatMap(symbol => {
+                const last = document.lineAt(symbol.endLine - 1);
+                const range = new vscode.Range(symbol.line - 1, 0, last.lineNumber, last.text.length);
+                const name = qualifiedName(symbol);
+                return [
+                    new vscode.CodeLens(range, {
+                        title: 'Explain',
+                        tooltip: `Explain ${name}`,
+                        command: 'codeQuizExplainer.explainCode',
+                        arguments: [document.uri, range]
+                    }),
+                    new vscode.CodeLens(range, {
+                        title: 'Quiz me',
+                        tooltip: `Quiz me on ${name}`,
+                        command: 'codeQuizExplainer.quizMe',
+                        arguments: [document.uri, range]
+                    })
+                ];
+            });
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.analyses.clear();
+    }
+
+    /**
+     * Lenses are requested again after every edit; analyze each version only once
+     */
+    private analyze(document: vscode.TextDocument): Promise<CodeAnalysis | undefined> {
+        const key = document.uri.toString();
+        const cached = this.analyses.get(key);
+        if (cached?.version === document.version) {
+            return cached.analysis;
+        }
+
+        // Only the editor's language counts here; guessing from content would put lenses on plain text
+        const code = document.getText();
+        const language = detectLanguage(code, { document });
+        const analysis = language.source === 'document' ? analyzeCode(code, language) : Promise.resolve(undefined);
+        this.analyses.set(key, { version: document.version, analysis });
+        return analysis;
+    }
+}
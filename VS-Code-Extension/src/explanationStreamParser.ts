@@ -0,0 +1,153 @@
+/**
+ * Explanation Stream Parser Module
+ *
+ * Incrementally scans a streamed explanation JSON document and reports the parts
+ * that are already complete: the root `title`/`overview` strings and each
+ * `lineByLineExplanations` entry as soon as its closing brace arrives. The final
+ * document is still validated as a whole once the stream ends.
+ */
+
+import { LineExplanation } from './codeExplainer';
+import { validateLineExplanation } from './responseValidator';
+
+export interface ExplanationStreamHandlers {
+    onField?: (key: 'title' | 'overview', value: string) => void;
+    onLine?: (line: LineExplanation) => void;
+}
+
+interface Frame {
+    type: 'object' | 'array';
+    key?: string; // Key of this container in its parent object
+    start: number; // Offset of the opening bracket in the buffer
+    expectKey: boolean; // Objects only: the next string is a key
+    currentKey?: string;
+}
+
+export class ExplanationStreamParser {
+    private buffer = '';
+    private position = 0;
+    private stack: Frame[] = [];
+    private inString = false;
+    private escaped = false;
+    private stringStart = 0;
+    private started = false;
+    private finished = false;
+    private lineIndex = 0;
+
+    constructor(private handlers: ExplanationStreamHandlers) {}
+
+    /**
+     * Feed the next chunk of streamed text
+     */
+    push(delta: string): void {
+        if (this.finished) {
+            return;
+        }
+
+        this.buffer += delta;
+        for (; this.position < this.buffer.length && !this.finished; this.position++) {
+            this.scan(this.buffer[this.position], this.position);
+        }
+    }
+
+    private scan(char: string, index: number): void {
+        if (!this.started) {
+            // Skip anything before the root object, e.g. a ```json fence
+            if (char !== '{') {
+                return;
+            }
+            this.started = true;
+        }
+
+        if (this.inString) {
+            if (this.escaped) {
+                this.escaped = false;
+            } else if (char === '\\') {
+                this.escaped = true;
+            } else if (char === '"') {
+                this.inString = false;
+                this.endString(this.buffer.slice(this.stringStart, index + 1));
+            }
+            return;
+        }
+
+        const top = this.stack[this.stack.length - 1];
+        switch (char) {
+            case '"':
+                this.inString = true;
+                this.stringStart = index;
+                break;
+            case '{':
+            case '[':
+                this.stack.push({
+                    type: char === '{' ? 'object' : 'array',
+                    key: top?.type === 'object' ? top.currentKey : undefined,
+                    start: index,
+                    expectKey: char === '{'
+                });
+                break;
+            case '}':
+            case ']':
+                this.endContainer(index);
+                break;
+            case ':':
+                if (top?.type === 'object') {
+                    top.expectKey = false;
+                }
+                break;
+            case ',':
+                if (top?.type === 'object') {
+                    top.expectKey = true;
+                }
+                break;
+        }
+    }
+
+    private endString(literal: string): void {
+        const top = this.stack[this.stack.length - 1];
+        if (top?.type !== 'object') {
+            return;
+        }
+
+        const value = this.parseLiteral(literal);
+        if (top.expectKey) {
+            top.currentKey = value;
+        } else if (this.stack.length === 1 && (top.currentKey === 'title' || top.currentKey === 'overview') && value) {
+            this.handlers.onField?.(top.currentKey, value);
+        }
+    }
+
+    private endContainer(index: number): void {
+        const frame = this.stack.pop();
+        if (!frame) {
+            return;
+        }
+
+        if (this.stack.length === 0) {
+            this.finished = true;
+            return;
+        }
+
+        // Entries of the root `lineByLineExplanations` array are complete once their brace closes
+        const parent = this.stack[this.stack.length - 1];
+        if (frame.type === 'object' && parent.type === 'array' && parent.key === 'lineByLineExplanations' && this.stack.length === 2) {
+            const path = `lineByLineExplanations[${this.lineIndex++}]`;
+            try {
+                const line = validateLineExplanation(JSON.parse(this.buffer.slice(frame.start, index + 1)), path, []);
+                if (line) {
+                    this.handlers.onLine?.(line);
+                }
+            } catch {
+                // Malformed entries are reported by the full validation at the end
+            }
+        }
+    }
+
+    private parseLiteral(literal: string): string | undefined {
+        try {
+            return JSON.parse(literal);
+        } catch {
+            return undefined;
+        }
+    }
+}
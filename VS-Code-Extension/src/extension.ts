@@ -2,44 +2,78 @@ import * as vscode from 'vscode';
 import { QuizGenerator } from './quizGenerator';
 import { CodeExplainer } from './codeExplainer';
 import { UIManager } from './uiManager';
+import { CodeQuizExplainerAPI, isCancellationError, providerRegistry } from './aiProvider';
+import { registerBuiltInProviders } from './providers';
+import { ResponseCache } from './responseCache';
+import { AIService } from './aiService';
+import { UsageLedger } from './usageLedger';
+import { PromptTemplates } from './promptTemplates';
+import { ApiKeyStore } from './apiKeyStore';
+import { detectLanguage } from './languageDetector';
+import { ClarifyHistory } from './clarifyHistory';
+import { InlineExplanations } from './inlineExplanations';
+import { DeclarationLensProvider } from './declarationLenses';
+import { QuizHistory, QuizOrigin } from './quizHistory';
+import { ReviewScheduler } from './reviewScheduler';
+
+const WELCOME_SHOWN_KEY = 'codeQuizExplainer.welcomeShown';
 
 /**
  * Main extension activation function
  * Called when the extension is first activated
  */
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): CodeQuizExplainerAPI {
     try {
         console.log('🚀 EXTENSION ACTIVATING - Code Quiz & Explainer extension is now active!');
         
-        // Show a modern notification to confirm extension is loaded
-        vscode.window.showInformationMessage('🚀 Code Quiz & Explainer is ready to blow your mind!');
-        console.log('🚀 Notification shown');
+        // The extension activates on startup, so greet only on the first run
+        if (!context.globalState.get<boolean>(WELCOME_SHOWN_KEY)) {
+            vscode.window.showInformationMessage('🚀 Code Quiz & Explainer is ready to blow your mind!');
+            context.globalState.update(WELCOME_SHOWN_KEY, true);
+            console.log('🚀 Notification shown');
+        }
+
+        // Register the built-in AI providers before anything constructs an AIService
+        context.subscriptions.push(...registerBuiltInProviders(providerRegistry));
+
+        // API keys live in secret storage; move any left in plaintext settings
+        const apiKeyStore = new ApiKeyStore(context.secrets, context.workspaceState);
+        apiKeyStore.migrateFromSettings().catch(error => console.error('API key migration failed:', error));
+        context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('codeQuizExplainer.openaiApiKey') || event.affectsConfiguration('codeQuizExplainer.anthropicApiKey')) {
+                apiKeyStore.migrateFromSettings().catch(error => console.error('API key migration failed:', error));
+            }
+        }));
 
         // Initialize our core modules
         console.log('🚀 Initializing core modules...');
-        const quizGenerator = new QuizGenerator();
+        const responseCache = new ResponseCache(context.globalStorageUri);
+        const usageLedger = new UsageLedger(context.globalStorageUri);
+        const promptTemplates = new PromptTemplates();
+        const aiService = new AIService(responseCache, apiKeyStore, usageLedger, promptTemplates);
+        context.subscriptions.push(promptTemplates, aiService);
+        console.log('🚀 AIService created');
+        const quizGenerator = new QuizGenerator(aiService);
         console.log('🚀 QuizGenerator created');
-        const codeExplainer = new CodeExplainer();
+        const codeExplainer = new CodeExplainer(aiService);
         console.log('🚀 CodeExplainer created');
-        const uiManager = new UIManager(context, codeExplainer);
+        const quizHistory = new QuizHistory(context.globalStorageUri);
+        const reviewScheduler = new ReviewScheduler(context.globalStorageUri, quizHistory);
+        context.subscriptions.push(quizHistory, reviewScheduler);
+        const uiManager = new UIManager(context, aiService, codeExplainer, new ClarifyHistory(context.globalStorageUri), quizHistory);
         console.log('🚀 UIManager created');
+        const inlineExplanations = new InlineExplanations(codeExplainer);
+        context.subscriptions.push(inlineExplanations);
 
     // Register the "Quiz Me on This Code" command
     console.log('🚀 Registering quizMe command...');
-    const quizCommand = vscode.commands.registerCommand('codeQuizExplainer.quizMe', async () => {
+    const quizCommand = vscode.commands.registerCommand('codeQuizExplainer.quizMe', async (uri?: vscode.Uri, range?: vscode.Range) => {
         console.log('🚀 QUIZ COMMAND TRIGGERED!');
-        const activeEditor = vscode.window.activeTextEditor;
-        
-        if (!activeEditor) {
-            vscode.window.showErrorMessage('No active editor found. Please open a file with code.');
+        const target = await resolveCodeTarget(uri, range);
+        if (!target) {
             return;
         }
-
-        // Get selected text or entire document if nothing is selected
-        const selection = activeEditor.selection;
-        const code = selection.isEmpty 
-            ? activeEditor.document.getText()
-            : activeEditor.document.getText(selection);
+        const code = target.code;
 
         if (!code.trim()) {
             vscode.window.showErrorMessage('No code found to quiz on.');
@@ -47,40 +81,40 @@ export function activate(context: vscode.ExtensionContext) {
         }
 
         try {
-            // Get file extension for language detection
-            const fileExtension = activeEditor.document.fileName.split('.').pop() || '';
-            console.log('🚀 Generating quiz for code length:', code.length, 'extension:', fileExtension);
+            const language = detectLanguage(code, { document: target.document });
+            console.log('🚀 Generating quiz for code length:', code.length, 'language:', language.name);
             
-            // Generate quiz questions for the code
-            const quiz = await quizGenerator.generateQuiz(code, fileExtension);
+            // Generate quiz questions for the code; the notification's Cancel aborts the request
+            const quiz = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Generating quiz…',
+                cancellable: true
+            }, (_progress, token) => quizGenerator.generateQuiz(code, language, { token }));
             console.log('🚀 Quiz generated:', quiz.title, 'Questions:', quiz.totalQuestions);
             
             // Show the quiz in a webview panel
             console.log('🚀 Showing quiz panel...');
-            await uiManager.showQuizPanel(quiz, code);
+            await uiManager.showQuizPanel(quiz, code, () => quizGenerator.generateQuiz(code, language, { refresh: true }), quizOrigin(code, target.document));
             console.log('🚀 Quiz panel shown successfully');
             
         } catch (error) {
+            if (isCancellationError(error)) {
+                console.log('🚀 Quiz generation cancelled');
+                return;
+            }
             vscode.window.showErrorMessage(`Error generating quiz: ${error}`);
         }
     });
 
     // Register the "Explain This Code" command
     console.log('🚀 Registering explainCode command...');
-    const explainCommand = vscode.commands.registerCommand('codeQuizExplainer.explainCode', async () => {
+    const explainCommand = vscode.commands.registerCommand('codeQuizExplainer.explainCode', async (uri?: vscode.Uri, range?: vscode.Range) => {
         console.log('🚀 EXPLAIN COMMAND TRIGGERED!');
-        const activeEditor = vscode.window.activeTextEditor;
-        
-        if (!activeEditor) {
-            vscode.window.showErrorMessage('No active editor found. Please open a file with code.');
+        const target = await resolveCodeTarget(uri, range);
+        if (!target) {
             return;
         }
-
-        // Get selected text or entire document if nothing is selected
-        const selection = activeEditor.selection;
-        const code = selection.isEmpty 
-            ? activeEditor.document.getText()
-            : activeEditor.document.getText(selection);
+        const code = target.code;
 
         if (!code.trim()) {
             vscode.window.showErrorMessage('No code found to explain.');
@@ -88,30 +122,57 @@ export function activate(context: vscode.ExtensionContext) {
         }
 
         try {
-            // Get file extension for language detection
-            const fileExtension = activeEditor.document.fileName.split('.').pop() || '';
-            console.log('🚀 Generating explanation for code length:', code.length, 'extension:', fileExtension);
-            
-            // Generate explanation for the code
-            const explanation = await codeExplainer.explainCode(code, fileExtension);
-            console.log('🚀 Explanation generated:', explanation.title, 'Lines:', explanation.lineByLineExplanations.length);
+            const language = detectLanguage(code, { document: target.document });
+            console.log('🚀 Generating explanation for code length:', code.length, 'language:', language.name);
             
-            // Show the explanation in a webview panel
+            // Open the explanation panel and stream the explanation into it
             console.log('🚀 Showing explanation panel...');
-            await uiManager.showExplanationPanel(explanation, code);
-            console.log('🚀 Explanation panel shown successfully');
+            await uiManager.streamExplanationPanel(code, language, { document: target.document, startLine: target.startLine });
+            console.log('🚀 Explanation panel finished');
             
         } catch (error) {
             vscode.window.showErrorMessage(`Error generating explanation: ${error}`);
         }
     });
 
+    // Register the "Toggle Inline Explanations" command
+    const inlineCommand = vscode.commands.registerCommand('codeQuizExplainer.toggleInlineExplanations', async () => {
+        const activeEditor = vscode.window.activeTextEditor;
+        if (!activeEditor) {
+            vscode.window.showErrorMessage('No active editor found. Please open a file with code.');
+            return;
+        }
+
+        try {
+            await inlineExplanations.toggle(activeEditor);
+        } catch (error) {
+            if (isCancellationError(error)) {
+                console.log('🚀 Inline explanation cancelled');
+                return;
+            }
+            vscode.window.showErrorMessage(`Error generating explanation: ${error}`);
+        }
+    });
+
+    // "Explain" and "Quiz me" lenses above functions, methods and classes
+    const declarationLenses = new DeclarationLensProvider();
+    context.subscriptions.push(
+        declarationLenses,
+        vscode.languages.registerCodeLensProvider([{ scheme: 'file' }, { scheme: 'untitled' }], declarationLenses)
+    );
+
     // Set up paste detection for automatic quiz activation
     setupPasteDetection(context, quizGenerator, uiManager);
 
     // Set up poke feature (blocks pasting if enabled)
     setupPokeFeature(context, quizGenerator, codeExplainer, uiManager);
 
+    // Show the active AI provider and model in the status bar
+    setupStatusBar(context, aiService);
+
+    // Show how many quiz questions are due for review
+    setupReviewStatusBar(context, reviewScheduler);
+
     // Register a test command for debugging poke functionality
     const testPokeCommand = vscode.commands.registerCommand('codeQuizExplainer.testPoke', async () => {
         console.log('🔍 Test poke command triggered');
@@ -120,7 +181,7 @@ export function activate(context: vscode.ExtensionContext) {
 }`;
         
         try {
-            const action = await uiManager.showPokeModal(testCode);
+            const action = await uiManager.showPokeModal(testCode, detectLanguage(testCode));
             console.log('🔍 Test poke modal returned:', action);
             
             if (action === 'paste') {
@@ -138,10 +199,51 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    // Register the "Clear Cached AI Responses" command
+    const clearCacheCommand = vscode.commands.registerCommand('codeQuizExplainer.clearCache', async () => {
+        const removed = await responseCache.clear();
+        vscode.window.showInformationMessage(`Cleared ${removed} cached AI response${removed === 1 ? '' : 's'}.`);
+    });
+
+    // Register the "Show AI Usage" command
+    const showUsageCommand = vscode.commands.registerCommand('codeQuizExplainer.showUsage', () => uiManager.showUsagePanel(usageLedger));
+
+    // Register the "Show Quiz History" command
+    const showQuizHistoryCommand = vscode.commands.registerCommand('codeQuizExplainer.showQuizHistory', () => uiManager.showQuizHistoryPanel());
+
+    // Register the "Review Due Questions" command
+    const reviewCommand = vscode.commands.registerCommand('codeQuizExplainer.reviewDueQuestions', async () => {
+        const quiz = await reviewScheduler.reviewQuiz();
+        if (!quiz) {
+            vscode.window.showInformationMessage('No questions are due for review. Questions you miss in a quiz come back here on a schedule.');
+            return;
+        }
+        await uiManager.showQuizPanel(quiz, '', undefined, {
+            codeHash: QuizHistory.key(quiz.questions.map(question => question.id).join('\n')),
+            review: true
+        });
+    });
+
+    // Register the "Create Prompt Templates" command
+    const scaffoldTemplatesCommand = vscode.commands.registerCommand('codeQuizExplainer.scaffoldPromptTemplates', () => promptTemplates.scaffold());
+
+    // Register the "Set API Key" commands
+    const setOpenAIKeyCommand = vscode.commands.registerCommand('codeQuizExplainer.setOpenAIApiKey', () => apiKeyStore.promptForKey('openai'));
+    const setAnthropicKeyCommand = vscode.commands.registerCommand('codeQuizExplainer.setAnthropicApiKey', () => apiKeyStore.promptForKey('anthropic'));
+
         // Add commands to the context so they can be disposed when extension is deactivated
         console.log('🚀 Adding commands to subscriptions...');
-        context.subscriptions.push(quizCommand, explainCommand, testPokeCommand);
+        context.subscriptions.push(quizCommand, explainCommand, inlineCommand, testPokeCommand, clearCacheCommand, showUsageCommand, showQuizHistoryCommand, reviewCommand, scaffoldTemplatesCommand, setOpenAIKeyCommand, setAnthropicKeyCommand);
         console.log('🚀 Extension activation completed successfully!');
+
+        // API for other extensions, e.g. to contribute their own AI provider
+        return {
+            registerAIProvider: (id, factory) => {
+                const registration = providerRegistry.register(id, factory);
+                context.subscriptions.push(registration);
+                return registration;
+            }
+        };
         
     } catch (error) {
         console.error('💥 EXTENSION ACTIVATION FAILED:', error);
@@ -150,6 +252,42 @@ export function activate(context: vscode.ExtensionContext) {
     }
 }
 
+/**
+ * The code a command works on: a range of a document when one is passed (by a
+ * CodeLens), else the active editor's selection, or its whole document if nothing
+ * is selected
+ */
+async function resolveCodeTarget(uri?: vscode.Uri, range?: vscode.Range): Promise<{ document: vscode.TextDocument; code: string; startLine: number } | undefined> {
+    if (uri instanceof vscode.Uri && range instanceof vscode.Range) {
+        const document = await vscode.workspace.openTextDocument(uri);
+        return { document, code: document.getText(range), startLine: range.start.line };
+    }
+
+    const activeEditor = vscode.window.activeTextEditor;
+    if (!activeEditor) {
+        vscode.window.showErrorMessage('No active editor found. Please open a file with code.');
+        return undefined;
+    }
+
+    const selection = activeEditor.selection;
+    return {
+        document: activeEditor.document,
+        code: selection.isEmpty ? activeEditor.document.getText() : activeEditor.document.getText(selection),
+        startLine: selection.isEmpty ? 0 : selection.start.line
+    };
+}
+
+/**
+ * Where quizzed code came from for the quiz history; pasted code is recorded
+ * under the document it was pasted into
+ */
+function quizOrigin(code: string, document?: vscode.TextDocument): QuizOrigin {
+    return {
+        codeHash: QuizHistory.key(code),
+        file: document && !document.isUntitled ? vscode.workspace.asRelativePath(document.uri) : undefined
+    };
+}
+
 /**
  * Helper function to reliably paste text into the active editor
  * 
@@ -267,9 +405,12 @@ function setupPasteDetection(
                     .map(change => change.text)
                     .join('\n');
 
+                // The code was pasted into this document, so it is most likely in its language
+                const language = detectLanguage(pastedText, { target: event.document });
+
                 try {
-                    const quiz = await quizGenerator.generateQuiz(pastedText);
-                    await uiManager.showQuizPanel(quiz, pastedText);
+                    const quiz = await quizGenerator.generateQuiz(pastedText, language);
+                    await uiManager.showQuizPanel(quiz, pastedText, () => quizGenerator.generateQuiz(pastedText, language, { refresh: true }), quizOrigin(pastedText, event.document));
                 } catch (error) {
                     vscode.window.showErrorMessage(`Error generating quiz: ${error}`);
                 }
@@ -334,15 +475,17 @@ function setupPokeFeature(
                 position: targetPosition ? `${targetPosition.line}:${targetPosition.character}` : 'none'
             });
 
+            const language = detectLanguage(clipboardText, { target: targetEditor?.document });
+
             // Show poke modal - encourages quiz but allows bypass
-            const action = await uiManager.showPokeModal(clipboardText);
+            const action = await uiManager.showPokeModal(clipboardText, language);
             console.log('Poke modal returned action:', action);
 
             switch (action) {
                 case 'quiz':
                     try {
-                        const quiz = await quizGenerator.generateQuiz(clipboardText);
-                        await uiManager.showQuizPanel(quiz, clipboardText);
+                        const quiz = await quizGenerator.generateQuiz(clipboardText, language);
+                        await uiManager.showQuizPanel(quiz, clipboardText, () => quizGenerator.generateQuiz(clipboardText, language, { refresh: true }), quizOrigin(clipboardText, targetEditor?.document));
                         
                         // After quiz, automatically paste (they proved they understand)
                         console.log('🎯 Quiz completed, attempting paste...');
@@ -357,9 +500,11 @@ function setupPokeFeature(
 
                 case 'explain-quiz':
                     try {
-                        // First show explanation
-                        const explanation = await codeExplainer.explainCode(clipboardText);
-                        await uiManager.showExplanationPanel(explanation, clipboardText);
+                        // First show explanation; stop here if the user cancelled it
+                        const explanation = await uiManager.streamExplanationPanel(clipboardText, language);
+                        if (!explanation) {
+                            break;
+                        }
                         
                         // Then require quiz to paste
                         const takeQuiz = await vscode.window.showInformationMessage(
@@ -369,8 +514,8 @@ function setupPokeFeature(
                         );
                         
                         if (takeQuiz === 'Take Quiz 🧠') {
-                            const quiz = await quizGenerator.generateQuiz(clipboardText);
-                            await uiManager.showQuizPanel(quiz, clipboardText);
+                            const quiz = await quizGenerator.generateQuiz(clipboardText, language);
+                            await uiManager.showQuizPanel(quiz, clipboardText, () => quizGenerator.generateQuiz(clipboardText, language, { refresh: true }), quizOrigin(clipboardText, targetEditor?.document));
                             
                             // After quiz, automatically paste
                             const pasteSuccess = await pasteTextToEditor(clipboardText, targetDocumentUri, targetPosition);
@@ -457,6 +602,80 @@ function setupPokeFeature(
     context.subscriptions.push(pokeCommand, pasteKeybinding);
 }
 
+/**
+ * Shows the active AI provider and model, updated whenever the AI configuration changes
+ */
+function setupStatusBar(context: vscode.ExtensionContext, aiService: AIService) {
+    const statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+    statusItem.name = 'Code Quiz AI Provider';
+    statusItem.command = {
+        title: 'Configure AI Provider',
+        command: 'workbench.action.openSettings',
+        arguments: ['codeQuizExplainer.aiProvider']
+    };
+
+    const update = () => {
+        const status = aiService.getStatus();
+        const name = status.label || status.providerId;
+        const tooltip = new vscode.MarkdownString();
+
+        if (status.capReached) {
+            statusItem.text = `$(warning) ${name}: token cap reached`;
+            tooltip.appendMarkdown('The monthly AI token cap (`monthlyTokenCap`) is used up; using fallback generation until next month.');
+        } else if (!status.label) {
+            statusItem.text = `$(warning) ${name}`;
+            tooltip.appendMarkdown(`No AI provider is registered as \`${status.providerId}\`; using fallback generation.`);
+        } else if (!status.configured) {
+            statusItem.text = `$(warning) ${name}`;
+            tooltip.appendMarkdown(`${name} is not configured (missing API key?); using fallback generation.`);
+        } else {
+            statusItem.text = status.model ? `$(hubot) ${name}: ${status.model}` : `$(hubot) ${name}`;
+            tooltip.appendMarkdown(`Code Quiz AI provider: **${name}**` + (status.model ? ` (\`${status.model}\`)` : ''));
+            for (const [group, model] of Object.entries(status.taskModels)) {
+                tooltip.appendMarkdown(`\n\n${group}: \`${model}\``);
+            }
+        }
+
+        tooltip.appendMarkdown('\n\nClick to change AI settings.');
+        statusItem.tooltip = tooltip;
+        statusItem.show();
+    };
+
+    update();
+    context.subscriptions.push(statusItem, aiService.onDidChangeStatus(update));
+}
+
+const REVIEW_REFRESH_MS = 5 * 60 * 1000;
+
+/**
+ * Status bar counter of questions due for review; hidden while none are due
+ */
+function setupReviewStatusBar(context: vscode.ExtensionContext, reviewScheduler: ReviewScheduler) {
+    const statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
+    statusItem.name = 'Code Quiz Reviews';
+    statusItem.command = 'codeQuizExplainer.reviewDueQuestions';
+
+    const update = async () => {
+        const due = (await reviewScheduler.due()).length;
+        if (due === 0) {
+            statusItem.hide();
+            return;
+        }
+        statusItem.text = `$(mortar-board) ${due} due`;
+        statusItem.tooltip = `${due} quiz question${due === 1 ? '' : 's'} due for review. Click to review them.`;
+        statusItem.show();
+    };
+
+    const refresh = () => {
+        update().catch(error => console.warn('Failed to count due reviews:', error));
+    };
+
+    // Questions fall due as time passes, not only when answers are recorded
+    const timer = setInterval(refresh, REVIEW_REFRESH_MS);
+    refresh();
+    context.subscriptions.push(statusItem, reviewScheduler.onDidChange(refresh), { dispose: () => clearInterval(timer) });
+}
+
 /**
  * Called when the extension is deactivated
  */
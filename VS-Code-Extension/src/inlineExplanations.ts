@@ -0,0 +1,188 @@
+/**
+ * Inline Explanations Module
+ *
+ * Shows line-by-line explanations right in the editor instead of the side panel:
+ * as text after each explained line or as hovers on it, colored by importance.
+ * Explanations belong to the document they were made for and disappear from the
+ * lines that are edited afterwards; lines above or below an edit keep theirs.
+ */
+
+import * as vscode from 'vscode';
+import { CodeExplainer, LineExplanation } from './codeExplainer';
+import { detectLanguage } from './languageDetector';
+
+interface InlineEntry {
+    line: number; // 0-based document line
+    explanation: LineExplanation;
+}
+
+type Importance = LineExplanation['importance'];
+type InlineStyle = 'afterLine' | 'hover';
+
+const IMPORTANCE_COLORS: Record<Importance, string> = {
+    high: 'editorWarning.foreground',
+    medium: 'editorInfo.foreground',
+    low: 'editorCodeLens.foreground'
+};
+
+const MAX_INLINE_LENGTH = 120; // Longer explanations are cut short after the line; the hover has them in full
+
+export class InlineExplanations implements vscode.Disposable {
+    private entries = new Map<string, InlineEntry[]>();
+    private decorations = new Map<Importance, vscode.TextEditorDecorationType>();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private codeExplainer: CodeExplainer) {
+        this.createDecorations();
+        this.disposables.push(
+            vscode.workspace.onDidChangeTextDocument(event => this.invalidate(event)),
+            vscode.workspace.onDidCloseTextDocument(document => this.entries.delete(document.uri.toString())),
+            vscode.window.onDidChangeVisibleTextEditors(editors => editors.forEach(editor => this.render(editor))),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('codeQuizExplainer.inlineExplanationStyle')) {
+                    this.createDecorations();
+                    vscode.window.visibleTextEditors.forEach(editor => this.render(editor));
+                }
+            })
+        );
+    }
+
+    /**
+     * Hide the editor's inline explanations, or explain its selection (or the whole
+     * document) and show them. Throws if the explanation fails.
+     */
+    async toggle(editor: vscode.TextEditor): Promise<void> {
+        const document = editor.document;
+        const key = document.uri.toString();
+        if (this.entries.delete(key)) {
+            this.renderDocument(document);
+            vscode.window.setStatusBarMessage('Inline explanations hidden', 3000);
+            return;
+        }
+
+        const selection = editor.selection;
+        const code = selection.isEmpty ? document.getText() : document.getText(selection);
+        if (!code.trim()) {
+            vscode.window.showErrorMessage('No code found to explain.');
+            return;
+        }
+
+        const startLine = selection.isEmpty ? 0 : selection.start.line;
+        const version = document.version;
+        const explanation = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Explaining code inline…',
+            cancellable: true
+        }, (_progress, token) => this.codeExplainer.explainCode(code, detectLanguage(code, { document }), { token }));
+
+        // Line numbers are only meaningful for the text that was explained
+        if (document.isClosed || document.version !== version) {
+            vscode.window.showWarningMessage('The code changed while it was being explained. Toggle inline explanations again to explain the new version.');
+            return;
+        }
+
+        const lineCount = code.split('\n').length;
+        const entries = explanation.lineByLineExplanations
+            .filter(line => line.lineNumber >= 1 && line.lineNumber <= lineCount && line.explanation.trim())
+            .map(line => ({ line: startLine + line.lineNumber - 1, explanation: line }));
+        this.entries.set(key, entries);
+        this.renderDocument(document);
+        console.log('💡 Inline explanations shown:', entries.length, 'lines');
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.decorations.forEach(decoration => decoration.dispose());
+        this.entries.clear();
+    }
+
+    private style(): InlineStyle {
+        return vscode.workspace.getConfiguration('codeQuizExplainer').get<InlineStyle>('inlineExplanationStyle', 'afterLine');
+    }
+
+    /**
+     * One decoration type per importance; the style decides how lines are marked
+     */
+    private createDecorations(): void {
+        this.decorations.forEach(decoration => decoration.dispose());
+        const style = this.style();
+
+        for (const [importance, colorId] of Object.entries(IMPORTANCE_COLORS) as [Importance, string][]) {
+            const color = new vscode.ThemeColor(colorId);
+            this.decorations.set(importance, vscode.window.createTextEditorDecorationType({
+                overviewRulerColor: color,
+                overviewRulerLane: vscode.OverviewRulerLane.Right,
+                rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+                ...(style === 'afterLine'
+                    ? { after: { color, fontStyle: 'italic', margin: '0 0 0 2em' } }
+                    : { borderStyle: 'none none dotted none', borderWidth: '1px', borderColor: color })
+            }));
+        }
+    }
+
+    private renderDocument(document: vscode.TextDocument): void {
+        vscode.window.visibleTextEditors
+            .filter(editor => editor.document === document)
+            .forEach(editor => this.render(editor));
+    }
+
+    private render(editor: vscode.TextEditor): void {
+        const document = editor.document;
+        const entries = this.entries.get(document.uri.toString()) ?? [];
+        const afterLine = this.style() === 'afterLine';
+
+        const options = new Map<Importance, vscode.DecorationOptions[]>();
+        for (const entry of entries) {
+            if (entry.line >= document.lineCount) {
+                continue;
+            }
+            const line = document.lineAt(entry.line);
+            const text = entry.explanation.explanation.replace(/\s+/g, ' ').trim();
+            const option: vscode.DecorationOptions = {
+                // Hovers need text to sit on, so skip the indentation
+                range: new vscode.Range(entry.line, line.firstNonWhitespaceCharacterIndex, entry.line, line.text.length),
+                hoverMessage: this.hover(entry.explanation),
+                renderOptions: afterLine
+                    ? { after: { contentText: text.length > MAX_INLINE_LENGTH ? `${text.slice(0, MAX_INLINE_LENGTH - 1)}…` : text } }
+                    : undefined
+            };
+            options.set(entry.explanation.importance, [...(options.get(entry.explanation.importance) ?? []), option]);
+        }
+
+        this.decorations.forEach((decoration, importance) => editor.setDecorations(decoration, options.get(importance) ?? []));
+    }
+
+    private hover(explanation: LineExplanation): vscode.MarkdownString {
+        return new vscode.MarkdownString()
+            .appendMarkdown(`**${explanation.category}** · ${explanation.importance} importance\n\n`)
+            .appendText(explanation.explanation);
+    }
+
+    /**
+     * Drop the explanations of edited lines and move the ones below an edit with it
+     */
+    private invalidate(event: vscode.TextDocumentChangeEvent): void {
+        const key = event.document.uri.toString();
+        let entries = this.entries.get(key);
+        if (!entries || event.contentChanges.length === 0) {
+            return;
+        }
+
+        // Later changes first, so each range still refers to the lines it was made against
+        const changes = [...event.contentChanges].sort((a, b) => b.range.start.compareTo(a.range.start));
+        for (const change of changes) {
+            const { start, end } = change.range;
+            const delta = (change.text.split('\n').length - 1) - (end.line - start.line);
+            entries = entries
+                .filter(entry => entry.line < start.line || entry.line > end.line)
+                .map(entry => entry.line > end.line ? { ...entry, line: entry.line + delta } : entry);
+        }
+
+        if (entries.length) {
+            this.entries.set(key, entries);
+        } else {
+            this.entries.delete(key);
+        }
+        this.renderDocument(event.document);
+    }
+}
@@ -0,0 +1,254 @@
+/**
+ * Language Detector Module
+ *
+ * The one place that decides which language a piece of code is written in. The
+ * editor knows best, so the language of the document the code comes from wins,
+ * then the language of the editor it is being pasted into. Only code with neither
+ * falls back to content heuristics, which score every language and report how
+ * sure they are.
+ */
+
+import * as vscode from 'vscode';
+
+export interface DetectedLanguage {
+    name: string; // Display name used in prompts and by the analyzers, e.g. `C#`
+    id: string; // VS Code language id, e.g. `csharp`
+    confidence: number; // 0–1; 1 when an editor supplied the language
+    source: 'document' | 'target' | 'content';
+}
+
+export interface LanguageHints {
+    document?: vscode.TextDocument; // The document the code was taken from
+    target?: vscode.TextDocument; // The document the code is being pasted into
+}
+
+/**
+ * Display names for VS Code language ids; ids missing here (plaintext, markdown,
+ * logs, ...) say nothing about a snippet, so its content decides instead
+ */
+const LANGUAGE_NAMES: Record<string, string> = {
+    javascript: 'JavaScript',
+    javascriptreact: 'JavaScript',
+    typescript: 'TypeScript',
+    typescriptreact: 'TypeScript',
+    python: 'Python',
+    java: 'Java',
+    csharp: 'C#',
+    cpp: 'C++',
+    c: 'C',
+    go: 'Go',
+    rust: 'Rust',
+    php: 'PHP',
+    ruby: 'Ruby',
+    swift: 'Swift',
+    kotlin: 'Kotlin',
+    scala: 'Scala',
+    r: 'R',
+    dart: 'Dart',
+    lua: 'Lua',
+    perl: 'Perl',
+    shellscript: 'Shell',
+    powershell: 'PowerShell',
+    sql: 'SQL',
+    html: 'HTML',
+    css: 'CSS',
+    scss: 'SCSS',
+    less: 'Less',
+    vue: 'Vue',
+    svelte: 'Svelte'
+};
+
+const DEFAULT_LANGUAGE = 'javascript';
+
+type Signal = [pattern: RegExp, weight: number];
+
+/**
+ * Weighted patterns per language id. Weights reflect how specific a pattern is:
+ * `System.out.println` is all but proof of Java, `=>` only hints at JavaScript.
+ */
+const SIGNALS: Record<string, Signal[]> = {
+    python: [
+        [/^\s*def \w+\(.*\)(\s*->\s*[^:]+)?:\s*$/m, 4],
+        [/^\s*from [\w.]+ import /m, 4],
+        [/^\s*class \w+(\(.*\))?:\s*$/m, 4],
+        [/^\s*(el)?if .+:\s*$/m, 2],
+        [/\b(self|None|True|False|elif)\b/, 1],
+        [/__\w+__/, 2],
+        [/^\s*import [\w.]+(\s+as \w+)?\s*$/m, 1]
+    ],
+    javascript: [
+        [/\b(const|let|var) \w+\s*=/, 1],
+        [/=>/, 1],
+        [/\bfunction\b\s*\w*\s*\(/, 2],
+        [/\bconsole\.\w+\(/, 3],
+        [/\brequire\(['"]/, 3],
+        [/^\s*import .+ from ['"]/m, 3],
+        [/^\s*export (default |const |function |class )/m, 2],
+        [/\b(document|window)\.\w+/, 2],
+        [/===|!==/, 1]
+    ],
+    java: [
+        [/\bpublic (static )?(final )?(class|interface|void|enum)\b/, 3],
+        [/\bSystem\.out\.print/, 5],
+        [/^\s*package [\w.]+;/m, 5],
+        [/^\s*import [\w.]+(\.\*)?;/m, 4],
+        [/@Override\b/, 3],
+        [/\b(private|protected) (static )?(final )?\w+(<[\w<>, ]+>)? \w+\s*[;=(]/, 2]
+    ],
+    csharp: [
+        [/^\s*using System[\w.]*;/m, 5],
+        [/\bConsole\.Write(Line)?\(/, 5],
+        [/\{\s*get;\s*(set;\s*)?\}/, 4],
+        [/^\s*namespace [\w.]+/m, 2],
+        [/\bpublic (async |static |override )*(Task|void|string|int|bool)\b/, 1],
+        [/\bvar \w+ = new\b/, 1]
+    ],
+    cpp: [
+        [/#include\s*<\w+>/, 3],
+        [/\bstd::/, 4],
+        [/\b(cout|cerr)\s*<</, 4],
+        [/\btemplate\s*</, 3],
+        [/\bclass \w+\s*(:\s*(public|private|protected) \w+\s*)?\{/, 1],
+        [/\w::\w/, 1]
+    ],
+    c: [
+        [/#include\s*<\w+\.h>/, 3],
+        [/\bprintf\(/, 2],
+        [/\b(malloc|free|sizeof)\(/, 2],
+        [/\bint main\(/, 1],
+        [/\btypedef struct\b/, 3]
+    ],
+    go: [
+        [/^\s*package \w+\s*$/m, 4],
+        [/\bfunc (\(\w+ \*?\w+\) )?\w+\(/, 4],
+        [/:=/, 2],
+        [/\bfmt\.\w+\(/, 4],
+        [/^\s*import \(/m, 3]
+    ],
+    rust: [
+        [/\bfn \w+(<.*>)?\(/, 4],
+        [/\blet mut\b/, 4],
+        [/\b\w+!\(/, 2],
+        [/^\s*use \w+(::\w+)+/m, 3],
+        [/\bimpl\b/, 3],
+        [/&(mut )?(self|str)\b/, 3]
+    ],
+    php: [
+        [/<\?php/, 6],
+        [/\$\w+\s*=/, 2],
+        [/\$this->/, 4],
+        [/\becho\b/, 2],
+        [/\bfunction \w+\(\$/, 4]
+    ],
+    ruby: [
+        [/^\s*def \w+[?!]?(\(.*\))?\s*$/m, 3],
+        [/^\s*end\s*$/m, 3],
+        [/\bputs\b/, 3],
+        [/^\s*require ['"]/m, 3],
+        [/\battr_(reader|writer|accessor)\b/, 4],
+        [/\bdo \|\w+(, \w+)*\|/, 4]
+    ],
+    swift: [
+        [/^\s*import (UIKit|SwiftUI|Foundation)\b/m, 5],
+        [/\b(guard|if) let\b/, 4],
+        [/\bfunc \w+\(.*\)\s*->/, 2],
+        [/\bvar \w+: \w+/, 1]
+    ],
+    kotlin: [
+        [/\bfun \w+\(/, 4],
+        [/\bval \w+/, 2],
+        [/\bdata class\b/, 4],
+        [/\bprintln\(/, 1]
+    ],
+    shellscript: [
+        [/^#!\/(usr\/)?bin\/(env )?(ba|z)?sh/, 6],
+        [/^\s*(if \[|fi\s*$|done\s*$)/m, 3],
+        [/^\s*echo /m, 1]
+    ],
+    sql: [
+        [/\bSELECT\b[\s\S]+\bFROM\b/i, 4],
+        [/\b(INSERT INTO|CREATE TABLE|UPDATE \w+ SET|DELETE FROM)\b/i, 5]
+    ]
+};
+
+/**
+ * Type-level syntax that plain JavaScript does not allow
+ */
+const TYPESCRIPT_SIGNALS: Signal[] = [
+    [/^\s*(export )?(interface|type) \w+(<.*>)?\s*(=|\{|extends)/m, 4],
+    [/[\w)]\??:\s*(string|number|boolean|void|any|unknown|never)(\[\])?\b/, 4],
+    [/\b(public|private|protected|readonly) \w+\??:/, 3],
+    [/\bas (string|number|const|any)\b/, 3],
+    [/\bimplements \w+/, 2]
+];
+
+/**
+ * Evidence a single guess needs to be fully confident
+ */
+const CONFIDENT_SCORE = 8;
+
+/**
+ * Language of `code`: from the source document, else from the paste target, else
+ * guessed from the content
+ */
+export function detectLanguage(code: string, hints: LanguageHints = {}): DetectedLanguage {
+    const fromDocument = hints.document && fromLanguageId(hints.document.languageId, 'document');
+    if (fromDocument) {
+        return fromDocument;
+    }
+    const fromTarget = hints.target && fromLanguageId(hints.target.languageId, 'target');
+    return fromTarget ?? guessLanguage(code);
+}
+
+/**
+ * Score every language against the content. Confidence grows with the winner's
+ * evidence and its lead over the runner-up.
+ */
+export function guessLanguage(code: string): DetectedLanguage {
+    const scores = Object.entries(SIGNALS).map(([id, signals]) => ({ id, score: score(code, signals) }));
+
+    // TypeScript is JavaScript plus type syntax, so type syntax turns the JavaScript evidence into TypeScript
+    const types = score(code, TYPESCRIPT_SIGNALS);
+    const javascript = scores.find(candidate => candidate.id === 'javascript');
+    if (javascript && types > 0) {
+        javascript.id = 'typescript';
+        javascript.score += types;
+    }
+
+    const [best, runnerUp] = scores.sort((a, b) => b.score - a.score);
+    if (best.score === 0) {
+        return { name: LANGUAGE_NAMES[DEFAULT_LANGUAGE], id: DEFAULT_LANGUAGE, confidence: 0, source: 'content' };
+    }
+
+    const lead = best.score / (best.score + runnerUp.score);
+    const evidence = Math.min(1, best.score / CONFIDENT_SCORE);
+    return {
+        name: LANGUAGE_NAMES[best.id],
+        id: best.id,
+        confidence: Math.round(lead * evidence * 100) / 100,
+        source: 'content'
+    };
+}
+
+/**
+ * A human-readable account of where the language came from, e.g. for tooltips
+ */
+export function describeDetection(language: DetectedLanguage): string {
+    switch (language.source) {
+        case 'document':
+            return `${language.name}, from the editor`;
+        case 'target':
+            return `${language.name}, from the editor being pasted into`;
+        default:
+            return `${language.name}, guessed from the code (${Math.round(language.confidence * 100)}% confident)`;
+    }
+}
+
+function fromLanguageId(languageId: string, source: DetectedLanguage['source']): DetectedLanguage | undefined {
+    const name = LANGUAGE_NAMES[languageId];
+    return name ? { name, id: languageId, confidence: 1, source } : undefined;
+}
+
+function score(code: string, signals: Signal[]): number {
+    return signals.reduce((total, [pattern, weight]) => total + (pattern.test(code) ? weight : 0), 0);
+}
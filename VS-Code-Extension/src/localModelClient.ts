@@ -0,0 +1,231 @@
+/**
+ * Local Model Client Module
+ *
+ * Talks to a locally hosted model server, either through Ollama's native
+ * `/api/chat` endpoint or an OpenAI-compatible `/v1/chat/completions` endpoint
+ * (llama.cpp server, LM Studio, vLLM, ...). No API key is required.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { readLines, readServerSentEvents } from './streamReader';
+
+export type LocalApiStyle = 'ollama' | 'openai';
+
+export const LOCAL_DEFAULT_ENDPOINT = 'http://localhost:11434';
+
+export interface LocalModelClientOptions {
+    endpoint: string;
+    apiStyle: LocalApiStyle;
+    timeout?: number; // Request timeout in milliseconds
+}
+
+export interface LocalChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface LocalChatRequest {
+    model: string;
+    messages: LocalChatMessage[];
+    temperature?: number;
+    maxTokens?: number;
+    json?: boolean; // Ask the server to constrain output to JSON where supported
+    signal?: AbortSignal;
+}
+
+export interface LocalChatResponse {
+    content: string;
+    promptTokens?: number;
+    completionTokens?: number;
+}
+
+/**
+ * Error raised for failed local requests; exposes `status`/`code` like the other provider errors
+ */
+export class LocalModelError extends Error {
+    constructor(message: string, public readonly status?: number, public readonly code?: string) {
+        super(message);
+        this.name = 'LocalModelError';
+    }
+}
+
+export class LocalModelClient {
+    private http: AxiosInstance;
+    private apiStyle: LocalApiStyle;
+
+    constructor(options: LocalModelClientOptions) {
+        this.apiStyle = options.apiStyle;
+        this.http = axios.create({
+            baseURL: LocalModelClient.normalizeEndpoint(options.endpoint || LOCAL_DEFAULT_ENDPOINT),
+            timeout: options.timeout ?? 120000,
+            headers: { 'content-type': 'application/json' }
+        });
+    }
+
+    /**
+     * Run a non-streaming chat completion against the local server
+     */
+    async chat(request: LocalChatRequest): Promise<LocalChatResponse> {
+        try {
+            return this.apiStyle === 'ollama'
+                ? await this.chatOllama(request)
+                : await this.chatOpenAICompatible(request);
+        } catch (error: any) {
+            throw this.toLocalError(error);
+        }
+    }
+
+    /**
+     * Run a streaming chat completion, calling `onText` for every text delta
+     */
+    async chatStream(request: LocalChatRequest, onText: (delta: string) => void): Promise<LocalChatResponse> {
+        try {
+            return this.apiStyle === 'ollama'
+                ? await this.streamOllama(request, onText)
+                : await this.streamOpenAICompatible(request, onText);
+        } catch (error: any) {
+            throw this.toLocalError(error);
+        }
+    }
+
+    private async chatOllama(request: LocalChatRequest): Promise<LocalChatResponse> {
+        const response = await this.http.post('/api/chat', this.ollamaBody(request, false), {
+            signal: request.signal
+        });
+
+        const data = response.data || {};
+        return {
+            content: String(data.message?.content || ''),
+            promptTokens: data.prompt_eval_count,
+            completionTokens: data.eval_count
+        };
+    }
+
+    private async chatOpenAICompatible(request: LocalChatRequest): Promise<LocalChatResponse> {
+        const response = await this.http.post('/v1/chat/completions', this.openAIBody(request, false), {
+            signal: request.signal
+        });
+
+        const data = response.data || {};
+        return {
+            content: String(data.choices?.[0]?.message?.content || ''),
+            promptTokens: data.usage?.prompt_tokens,
+            completionTokens: data.usage?.completion_tokens
+        };
+    }
+
+    private async streamOllama(request: LocalChatRequest, onText: (delta: string) => void): Promise<LocalChatResponse> {
+        const response = await this.http.post('/api/chat', this.ollamaBody(request, true), {
+            signal: request.signal,
+            responseType: 'stream'
+        });
+
+        // Ollama streams one JSON object per line; the last one has `done: true` and the counts
+        const result: LocalChatResponse = { content: '' };
+        for await (const line of readLines(response.data)) {
+            if (!line.trim()) {
+                continue;
+            }
+            const data = JSON.parse(line);
+            if (data.error) {
+                throw new LocalModelError(String(data.error));
+            }
+            const delta = data.message?.content || '';
+            if (delta) {
+                result.content += delta;
+                onText(delta);
+            }
+            if (data.done) {
+                result.promptTokens = data.prompt_eval_count;
+                result.completionTokens = data.eval_count;
+            }
+        }
+        return result;
+    }
+
+    private async streamOpenAICompatible(request: LocalChatRequest, onText: (delta: string) => void): Promise<LocalChatResponse> {
+        const response = await this.http.post('/v1/chat/completions', this.openAIBody(request, true), {
+            signal: request.signal,
+            responseType: 'stream'
+        });
+
+        const result: LocalChatResponse = { content: '' };
+        for await (const event of readServerSentEvents(response.data)) {
+            if (event.data === '[DONE]') {
+                break;
+            }
+            const data = JSON.parse(event.data);
+            const delta = data.choices?.[0]?.delta?.content || '';
+            if (delta) {
+                result.content += delta;
+                onText(delta);
+            }
+            if (data.usage) {
+                result.promptTokens = data.usage.prompt_tokens;
+                result.completionTokens = data.usage.completion_tokens;
+            }
+        }
+        return result;
+    }
+
+    private ollamaBody(request: LocalChatRequest, stream: boolean): object {
+        return {
+            model: request.model,
+            messages: request.messages,
+            stream,
+            format: request.json ? 'json' : undefined,
+            options: {
+                temperature: request.temperature,
+                num_predict: request.maxTokens
+            }
+        };
+    }
+
+    private openAIBody(request: LocalChatRequest, stream: boolean): object {
+        return {
+            model: request.model,
+            messages: request.messages,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            response_format: request.json ? { type: 'json_object' } : undefined,
+            stream
+        };
+    }
+
+    /**
+     * Strip trailing slashes and a trailing `/v1` so both `http://host:8080` and
+     * `http://host:8080/v1` work for OpenAI-compatible servers
+     */
+    private static normalizeEndpoint(endpoint: string): string {
+        return endpoint.trim().replace(/\/+$/, '').replace(/\/v1$/, '');
+    }
+
+    private toLocalError(error: any): Error {
+        if (axios.isCancel(error) || error instanceof LocalModelError) {
+            return error as Error; // Cancellations and already-mapped errors pass through
+        }
+
+        if (!axios.isAxiosError(error)) {
+            return new LocalModelError(String(error?.message || error));
+        }
+
+        if (error.response) {
+            // Streamed requests carry an unread stream instead of a parsed body
+            const body: any = typeof error.response.data?.pipe === 'function' ? {} : error.response.data || {};
+            const message = typeof body.error === 'string'
+                ? body.error
+                : body.error?.message || `Local model server returned status ${error.response.status}`;
+            return new LocalModelError(message, error.response.status);
+        }
+
+        if (error.code === 'ECONNABORTED') {
+            return new LocalModelError('Local model request timed out', undefined, 'timeout');
+        }
+
+        if (error.code === 'ECONNREFUSED') {
+            return new LocalModelError('Could not connect to the local model server', undefined, 'connection_refused');
+        }
+
+        return new LocalModelError(error.message || 'Local model request failed');
+    }
+}
@@ -0,0 +1,375 @@
+/**
+ * Prompt Templates Module
+ *
+ * The task prompts AIService sends are templates with `{{variable}}` placeholders.
+ * A workspace can override any of them with Markdown files named after the task
+ * (`quiz.md`, `explanation.md`, ...) in the `promptTemplatesPath` folder, which
+ * defaults to `.codequiz/prompts`. Each template carries a content hash that is part
+ * of the response cache key, so editing a template invalidates its cached results.
+ */
+
+import * as crypto from 'crypto';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AITask } from './aiProvider';
+
+export interface PromptTemplate {
+    text: string;
+    version: string; // Content hash
+    source?: vscode.Uri; // Undefined for the built-in default
+}
+
+export interface RenderedPrompt {
+    text: string;
+    version: string;
+}
+
+/**
+ * Variables each task's template can use
+ */
+export const TEMPLATE_VARIABLES: Record<AITask, string[]> = {
+    quiz: ['code', 'language', 'languageId', 'difficulty', 'questionCount'],
+    explanation: ['code', 'language', 'languageId', 'detailLevel'],
+    clarification: ['code', 'language', 'languageId', 'detailLevel', 'explanation', 'question'],
+    shortAnswer: ['question', 'correctAnswer', 'userAnswer', 'codeSnippet', 'language', 'languageId'],
+    codeModification: ['originalCode', 'requirement', 'userModifiedCode', 'language', 'languageId']
+};
+
+const DEFAULT_TEMPLATES: Record<AITask, string> = {
+    quiz: `You are an expert coding instructor. Analyze the following {{language}} code and generate exactly {{questionCount}} quiz questions to test understanding.
+
+CODE:
+\`\`\`{{languageId}}
+{{code}}
+\`\`\`
+
+Requirements:
+- Difficulty level: {{difficulty}}
+- Mix of multiple-choice and open-ended questions
+- Focus on: function names, variable purposes, control flow, syntax, and overall logic
+- Include brief explanations for each answer
+- Return JSON format matching this structure:
+
+{
+  "title": "Code Understanding Quiz",
+  "questions": [
+    {
+      "id": "q1",
+      "type": "multiple-choice" | "open-ended",
+      "question": "Question text here",
+      "options": ["option1", "option2", "option3", "option4"], // only for multiple-choice
+      "correctAnswer": "correct answer",
+      "explanation": "Brief explanation of why this is correct",
+      "codeSnippet": "relevant code snippet if applicable"
+    }
+  ],
+  "totalQuestions": {{questionCount}}
+}
+
+Generate questions that help the user understand what this code does, how it works, and why it's structured this way.`,
+
+    explanation: `You are an expert coding instructor. Provide a comprehensive explanation of the following {{language}} code.
+
+CODE:
+\`\`\`{{languageId}}
+{{code}}
+\`\`\`
+
+Detail level: {{detailLevel}}
+
+Please analyze the code and return JSON in this exact format:
+
+{
+  "title": "Code Explanation",
+  "overview": "High-level summary of what this code does and its purpose",
+  "sections": [
+    {
+      "kind": "declaration" | "block",
+      "title": "Name of the function, class or block, e.g. addItem(item) or for loop",
+      "startLine": 1,
+      "endLine": 12,
+      "explanation": "What this part does as a whole and how it fits into the code",
+      "sections": [] // blocks and declarations nested inside this one, within its lines
+    }
+  ],
+  "lineByLineExplanations": [
+    {
+      "lineNumber": 1,
+      "code": "actual line of code",
+      "explanation": "What this line does and why",
+      "category": "declaration" | "assignment" | "function-call" | "control-flow" | "comment" | "other",
+      "importance": "high" | "medium" | "low"
+    }
+  ],
+  "summary": {
+    "totalLines": 0,
+    "functions": ["function names found"],
+    "variables": ["variable names found"],
+    "classes": ["class names found"],
+    "keyPurpose": "Main purpose of this code",
+    "complexity": "simple" | "moderate" | "complex"
+  }
+}
+
+Give every function, method and class that spans several lines a "declaration" section, and every larger loop, conditional or try block inside it a nested "block" section, so readers can understand each part before its individual lines.
+
+Focus on:
+- Clear explanations for beginners to intermediate programmers
+- Why each line is important
+- How the pieces work together
+- Best practices demonstrated or violated
+- Potential improvements`,
+
+    clarification: `You are an expert coding instructor. The user has a follow-up question about the following {{language}} code.
+
+CODE:
+\`\`\`{{languageId}}
+{{code}}
+\`\`\`
+
+EXPLANATION ALREADY SHOWN TO THE USER:
+{{explanation}}
+
+USER QUESTION:
+"""
+{{question}}
+"""
+
+Answer directly and concisely at a {{detailLevel}} level, building on the explanation rather than repeating it. The user may ask further follow-up questions; answer those in the context of the conversation so far. Use clear, structured paragraphs and bullet points where helpful. Do not return JSON, just the explanation text.`,
+
+    shortAnswer: `Grade this {{language}} quiz answer LENIENTLY. Accept variations, synonyms, and different phrasings that convey the same meaning.
+
+QUESTION: {{question}}
+
+REFERENCE: {{correctAnswer}}
+
+STUDENT: {{userAnswer}}
+
+SCORING GUIDELINES:
+- Score 0.7-1.0: Shows good understanding (use "correct" verdict)
+- Score 0.3-0.69: Shows partial understanding (use "partial" verdict)  
+- Score 0-0.29: Minimal/no understanding (use "incorrect" verdict)
+
+Be encouraging but honest. Don't say "amazing work" for low scores.
+
+Return JSON: {"score": 0-1, "verdict": "correct|partial|incorrect", "feedback": "appropriate encouraging comment"}`,
+
+    codeModification: `STRICTLY evaluate this {{language}} code modification. Be harsh and precise - no partial credit for close attempts.
+
+ORIGINAL CODE:
+\`\`\`{{languageId}}
+{{originalCode}}
+\`\`\`
+
+REQUIREMENT:
+{{requirement}}
+
+STUDENT'S MODIFIED CODE:
+\`\`\`{{languageId}}
+{{userModifiedCode}}
+\`\`\`
+
+STRICT EVALUATION CRITERIA:
+- Score 1.0: Code EXACTLY meets requirement, no syntax errors, proper style
+- Score 0.5-0.9: Code mostly works but has minor issues or inefficiencies  
+- Score 0.1-0.4: Code attempts requirement but has significant flaws
+- Score 0.0: Code doesn't work, has syntax errors, or ignores requirement
+
+Check for:
+1. Syntax correctness
+2. Logic correctness
+3. Exact requirement fulfillment
+4. Code quality and style
+5. Edge cases handled
+
+Be critical and precise. No encouragement for poor attempts.
+
+Return JSON: {"score": 0-1, "verdict": "correct|partial|incorrect", "feedback": "specific technical feedback", "issues": ["list", "of", "problems"], "suggestions": ["specific", "improvements"]}`
+};
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+const COMMENT = /<!--[\s\S]*?-->/g;
+
+/**
+ * Fill `{{name}}` placeholders; unknown names are left as they are
+ */
+export function renderTemplate(template: PromptTemplate, variables: Record<string, string>): RenderedPrompt {
+    const text = template.text.replace(PLACEHOLDER, (match, name: string) =>
+        Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match
+    );
+    return { text, version: template.version };
+}
+
+export function defaultTemplate(task: AITask): PromptTemplate {
+    return createTemplate(DEFAULT_TEMPLATES[task]);
+}
+
+/**
+ * HTML comments document a template for its editors and are not sent to the model
+ */
+function createTemplate(content: string, source?: vscode.Uri): PromptTemplate {
+    const text = content.replace(COMMENT, '').trim();
+    return {
+        text,
+        version: crypto.createHash('sha256').update(text).digest('hex').slice(0, 16),
+        source
+    };
+}
+
+export class PromptTemplates implements vscode.Disposable {
+    private overrides?: Promise<Partial<Record<AITask, PromptTemplate>>>;
+    private watcher?: vscode.FileSystemWatcher;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.watch();
+        this.disposables.push(
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.invalidate()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('codeQuizExplainer.promptTemplatesPath')) {
+                    this.watch();
+                    this.invalidate();
+                }
+            })
+        );
+    }
+
+    /**
+     * The workspace override for a task, or the built-in default
+     */
+    async get(task: AITask): Promise<PromptTemplate> {
+        if (!this.overrides) {
+            this.overrides = this.loadOverrides();
+        }
+        return (await this.overrides)[task] ?? defaultTemplate(task);
+    }
+
+    /**
+     * Write the built-in templates into the templates folder of a workspace folder,
+     * keeping any files that already exist
+     */
+    async scaffold(): Promise<void> {
+        const folder = vscode.workspace.workspaceFolders?.length === 1
+            ? vscode.workspace.workspaceFolders[0]
+            : await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Create prompt templates in which folder?' });
+        if (!folder) {
+            if (!vscode.workspace.workspaceFolders?.length) {
+                vscode.window.showErrorMessage('Open a folder to create prompt templates in.');
+            }
+            return;
+        }
+
+        const directory = this.directory(folder);
+        await vscode.workspace.fs.createDirectory(directory);
+
+        const created: vscode.Uri[] = [];
+        for (const task of Object.keys(DEFAULT_TEMPLATES) as AITask[]) {
+            const file = vscode.Uri.joinPath(directory, `${task}.md`);
+            if (await this.exists(file)) {
+                continue;
+            }
+            await vscode.workspace.fs.writeFile(file, Buffer.from(this.scaffoldContent(task), 'utf8'));
+            created.push(file);
+        }
+
+        const location = vscode.workspace.asRelativePath(directory);
+        if (created.length === 0) {
+            vscode.window.showInformationMessage(`All prompt templates already exist in ${location}.`);
+            return;
+        }
+        vscode.window.showInformationMessage(`Created ${created.length} prompt template${created.length === 1 ? '' : 's'} in ${location}.`);
+        await vscode.window.showTextDocument(created[0]);
+    }
+
+    dispose(): void {
+        this.watcher?.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+
+    private scaffoldContent(task: AITask): string {
+        const variables = TEMPLATE_VARIABLES[task].map(name => `{{${name}}}`).join(', ');
+        return `<!--
+Prompt template for the "${task}" task. Edits apply to the next request and invalidate
+cached results made with the previous version. Delete this file to use the built-in prompt.
+Available variables: ${variables}
+-->
+
+${DEFAULT_TEMPLATES[task]}
+`;
+    }
+
+    private invalidate(): void {
+        this.overrides = undefined;
+    }
+
+    private watch(): void {
+        this.watcher?.dispose();
+        const relative = this.relativePath();
+        const pattern = path.isAbsolute(relative)
+            ? new vscode.RelativePattern(vscode.Uri.file(relative), '*.md')
+            : `**/${relative.replace(/\\/g, '/').replace(/^\.\//, '')}/*.md`;
+
+        this.watcher = vscode.workspace.createFileSystemWatcher(pattern);
+        this.watcher.onDidCreate(() => this.invalidate());
+        this.watcher.onDidChange(() => this.invalidate());
+        this.watcher.onDidDelete(() => this.invalidate());
+    }
+
+    /**
+     * Read overrides from every workspace folder; the first folder with a template wins
+     */
+    private async loadOverrides(): Promise<Partial<Record<AITask, PromptTemplate>>> {
+        const overrides: Partial<Record<AITask, PromptTemplate>> = {};
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const directory = this.directory(folder);
+            for (const task of Object.keys(DEFAULT_TEMPLATES) as AITask[]) {
+                if (overrides[task]) {
+                    continue;
+                }
+                const file = vscode.Uri.joinPath(directory, `${task}.md`);
+                try {
+                    const content = Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8');
+                    const template = createTemplate(content, file);
+                    if (!template.text) {
+                        continue; // An emptied file falls back to the default
+                    }
+                    overrides[task] = template;
+                    this.warnUnknownVariables(task, template);
+                    console.log(`📝 Using prompt template ${vscode.workspace.asRelativePath(file)}`);
+                } catch {
+                    // No override for this task in this folder
+                }
+            }
+        }
+        return overrides;
+    }
+
+    private warnUnknownVariables(task: AITask, template: PromptTemplate): void {
+        const unknown = [...template.text.matchAll(PLACEHOLDER)]
+            .map(match => match[1])
+            .filter(name => !TEMPLATE_VARIABLES[task].includes(name));
+        if (unknown.length > 0) {
+            console.warn(`Prompt template ${template.source?.fsPath} uses unknown variables: ${[...new Set(unknown)].join(', ')}`);
+        }
+    }
+
+    private directory(folder: vscode.WorkspaceFolder): vscode.Uri {
+        const relative = this.relativePath();
+        return path.isAbsolute(relative) ? vscode.Uri.file(relative) : vscode.Uri.joinPath(folder.uri, relative);
+    }
+
+    private relativePath(): string {
+        const config = vscode.workspace.getConfiguration('codeQuizExplainer');
+        return config.get<string>('promptTemplatesPath', '.codequiz/prompts').trim() || '.codequiz/prompts';
+    }
+
+    private async exists(uri: vscode.Uri): Promise<boolean> {
+        try {
+            await vscode.workspace.fs.stat(uri);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+}
@@ -0,0 +1,93 @@
+/**
+ * Anthropic Provider
+ *
+ * Chat completions through the Anthropic Messages API.
+ */
+
+import * as vscode from 'vscode';
+import { AICompletionRequest, AICompletionResponse, AIProvider } from '../aiProvider';
+import { AnthropicClient, AnthropicMessage, AnthropicMessageRequest, AnthropicMessageResponse } from '../anthropicClient';
+
+export class AnthropicProvider implements AIProvider {
+    readonly id = 'anthropic';
+    readonly label = 'Anthropic';
+    private client?: AnthropicClient;
+
+    constructor(apiKey: string | undefined, readonly model: string, baseURL?: string) {
+        if (apiKey) {
+            this.client = new AnthropicClient({ apiKey, baseURL });
+        }
+    }
+
+    static fromSettings(settings: vscode.WorkspaceConfiguration, apiKey: string | undefined): AnthropicProvider {
+        return new AnthropicProvider(
+            apiKey,
+            settings.get('anthropicModel', 'claude-3-5-sonnet-latest'),
+            settings.get<string>('anthropicBaseURL') || undefined
+        );
+    }
+
+    isConfigured(): boolean {
+        return !!this.client;
+    }
+
+    async complete(request: AICompletionRequest): Promise<AICompletionResponse> {
+        const client = this.requireClient();
+        const response = await client.createMessage(this.toMessageRequest(request), {
+            timeout: request.timeout,
+            signal: request.signal
+        });
+        return this.toResponse(response, request);
+    }
+
+    async stream(request: AICompletionRequest, onText: (delta: string) => void): Promise<AICompletionResponse> {
+        const client = this.requireClient();
+        const response = await client.streamMessage(this.toMessageRequest(request), onText, {
+            timeout: request.timeout,
+            signal: request.signal
+        });
+        return this.toResponse(response, request);
+    }
+
+    private requireClient(): AnthropicClient {
+        if (!this.client) {
+            throw new Error('Anthropic not initialized');
+        }
+        return this.client;
+    }
+
+    private toMessageRequest(request: AICompletionRequest): AnthropicMessageRequest {
+        // The Messages API takes the system prompt separately from the turns
+        const system = request.messages
+            .filter(message => message.role === 'system')
+            .map(message => message.content)
+            .join('\n\n');
+        const messages: AnthropicMessage[] = request.messages
+            .filter(message => message.role !== 'system')
+            .map(message => ({ role: message.role as AnthropicMessage['role'], content: message.content }));
+
+        return {
+            model: request.model || this.model,
+            system: system || undefined,
+            messages,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens ?? 1024
+        };
+    }
+
+    private toResponse(response: AnthropicMessageResponse, request: AICompletionRequest): AICompletionResponse {
+        const content = AnthropicClient.textOf(response);
+        if (!content) {
+            throw new Error('No response from Anthropic');
+        }
+
+        return {
+            content,
+            model: response.model || request.model || this.model,
+            usage: {
+                promptTokens: response.usage?.input_tokens,
+                completionTokens: response.usage?.output_tokens
+            }
+        };
+    }
+}
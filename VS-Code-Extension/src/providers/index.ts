@@ -0,0 +1,28 @@
+/**
+ * Built-in AI providers
+ */
+
+import * as vscode from 'vscode';
+import { AIProviderRegistry } from '../aiProvider';
+import { AnthropicProvider } from './anthropicProvider';
+import { LocalProvider } from './localProvider';
+import { MockProvider } from './mockProvider';
+import { OpenAIProvider } from './openaiProvider';
+import { VSCodeLMProvider } from './vscodeLmProvider';
+import { RecordingProvider, ReplayProvider } from './replayProvider';
+
+export { AnthropicProvider, LocalProvider, MockProvider, OpenAIProvider, RecordingProvider, ReplayProvider, VSCodeLMProvider };
+
+/**
+ * Register the providers that ship with the extension
+ */
+export function registerBuiltInProviders(registry: AIProviderRegistry): vscode.Disposable[] {
+    return [
+        registry.register('openai', (settings, apiKeys) => OpenAIProvider.fromSettings(settings, apiKeys.openai)),
+        registry.register('anthropic', (settings, apiKeys) => AnthropicProvider.fromSettings(settings, apiKeys.anthropic)),
+        registry.register('local', settings => LocalProvider.fromSettings(settings)),
+        registry.register('vscode-lm', settings => VSCodeLMProvider.fromSettings(settings)),
+        registry.register('replay', settings => ReplayProvider.fromSettings(settings)),
+        registry.register('mock', () => new MockProvider())
+    ];
+}
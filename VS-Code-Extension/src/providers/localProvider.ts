@@ -0,0 +1,70 @@
+/**
+ * Local Model Provider
+ *
+ * Chat completions against a locally hosted model server (Ollama or OpenAI-compatible).
+ */
+
+import * as vscode from 'vscode';
+import { AICompletionRequest, AICompletionResponse, AIProvider } from '../aiProvider';
+import { LocalApiStyle, LocalChatRequest, LocalChatResponse, LocalModelClient, LOCAL_DEFAULT_ENDPOINT } from '../localModelClient';
+
+export class LocalProvider implements AIProvider {
+    readonly id = 'local';
+    readonly label = 'Local model';
+    private client: LocalModelClient;
+
+    constructor(private endpoint: string, readonly model: string, apiStyle: LocalApiStyle, timeout: number) {
+        this.client = new LocalModelClient({ endpoint, apiStyle, timeout });
+    }
+
+    static fromSettings(settings: vscode.WorkspaceConfiguration): LocalProvider {
+        return new LocalProvider(
+            settings.get<string>('localEndpoint') || LOCAL_DEFAULT_ENDPOINT,
+            settings.get('localModel', 'codellama'),
+            settings.get<LocalApiStyle>('localApiStyle', 'ollama'),
+            settings.get<number>('localTimeout', 120000)
+        );
+    }
+
+    isConfigured(): boolean {
+        // Local servers need an endpoint and a model, not an API key
+        return !!(this.endpoint && this.model);
+    }
+
+    async complete(request: AICompletionRequest): Promise<AICompletionResponse> {
+        // Per-request timeouts are tuned for hosted APIs; local models use the configured timeout
+        const model = request.model || this.model;
+        return this.toResponse(await this.client.chat(this.toChatRequest(request, model)), model);
+    }
+
+    async stream(request: AICompletionRequest, onText: (delta: string) => void): Promise<AICompletionResponse> {
+        const model = request.model || this.model;
+        return this.toResponse(await this.client.chatStream(this.toChatRequest(request, model), onText), model);
+    }
+
+    private toChatRequest(request: AICompletionRequest, model: string): LocalChatRequest {
+        return {
+            model,
+            messages: request.messages,
+            temperature: request.temperature,
+            maxTokens: request.maxTokens,
+            json: request.json,
+            signal: request.signal
+        };
+    }
+
+    private toResponse(response: LocalChatResponse, model: string): AICompletionResponse {
+        if (!response.content) {
+            throw new Error('No response from local model');
+        }
+
+        return {
+            content: response.content,
+            model,
+            usage: {
+                promptTokens: response.promptTokens,
+                completionTokens: response.completionTokens
+            }
+        };
+    }
+}
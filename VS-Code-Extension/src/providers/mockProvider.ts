@@ -0,0 +1,281 @@
+/**
+ * Mock Provider
+ *
+ * Offline provider that answers every task with rule-based output. AIService also
+ * uses it as the fallback whenever the configured provider fails.
+ */
+
+import { AICompletionRequest, AICompletionResponse, AIProvider } from '../aiProvider';
+import {
+    AIClarifyRequest,
+    AICodeModificationRequest,
+    AICodeModificationResult,
+    AIEvaluateShortAnswerRequest,
+    AIExplanationRequest,
+    AIQuizRequest,
+    AIShortAnswerResult
+} from '../aiService';
+import { Quiz } from '../quizGenerator';
+import { CodeExplanation, LineExplanation } from '../codeExplainer';
+
+export class MockProvider implements AIProvider {
+    readonly id = 'mock';
+    readonly label = 'Mock';
+    readonly model = 'mock';
+
+    isConfigured(): boolean {
+        return true;
+    }
+
+    async complete(request: AICompletionRequest): Promise<AICompletionResponse> {
+        switch (request.task) {
+            case 'quiz':
+                return this.reply(this.generateMockQuiz((request.source as AIQuizRequest).code));
+            case 'explanation':
+                return this.reply(this.generateMockExplanation((request.source as AIExplanationRequest).code));
+            case 'clarification':
+                return this.reply(this.generateMockClarification(request.source as AIClarifyRequest));
+            case 'shortAnswer':
+                return this.reply(this.evaluateShortAnswerFallback(request.source as AIEvaluateShortAnswerRequest));
+            case 'codeModification':
+                return this.reply(this.evaluateCodeModificationFallback(request.source as AICodeModificationRequest));
+        }
+    }
+
+    private reply(payload: unknown): AICompletionResponse {
+        // Offline replies cost nothing, so they never count towards the monthly token cap
+        const content = typeof payload === 'string' ? payload : JSON.stringify(payload);
+        return { content, model: this.model, usage: { promptTokens: 0, completionTokens: 0 } };
+    }
+
+    /**
+     * Fallback mock quiz generation (existing logic)
+     */
+    generateMockQuiz(code: string): Quiz {
+        const lines = code.split('\n').filter(line => line.trim() !== '');
+        
+        return {
+            title: 'Code Understanding Quiz (Mock)',
+            questions: [
+                {
+                    id: 'mock-1',
+                    type: 'multiple-choice',
+                    question: 'How many lines of code are in this snippet?',
+                    options: [
+                        `${Math.max(1, lines.length - 2)} lines`,
+                        `${lines.length} lines`,
+                        `${lines.length + 2} lines`,
+                        `${lines.length + 5} lines`
+                    ],
+                    correctAnswer: `${lines.length} lines`,
+                    explanation: `The code snippet contains exactly ${lines.length} lines of code.`,
+                    codeSnippet: code.substring(0, 200) + '...'
+                },
+                {
+                    id: 'mock-2',
+                    type: 'open-ended',
+                    question: 'What is the main purpose of this code?',
+                    correctAnswer: 'This code performs various operations including function definitions and data manipulation.',
+                    explanation: 'The code demonstrates programming concepts and performs specific computational tasks.',
+                    codeSnippet: code.substring(0, 200) + '...'
+                },
+                {
+                    id: 'mock-3',
+                    type: 'code-modification',
+                    question: 'Modify the code to add proper error handling',
+                    startingCode: code.substring(0, 150),
+                    requirement: 'Add try-catch blocks around potentially unsafe operations and provide meaningful error messages',
+                    correctAnswer: 'Code with try-catch blocks and error handling',
+                    explanation: 'Error handling is crucial for robust code. Try-catch blocks help prevent crashes and provide better user experience.'
+                }
+            ],
+            totalQuestions: 3
+        };
+    }
+
+    /**
+     * Fallback mock explanation generation (existing logic)
+     */
+    generateMockExplanation(code: string): CodeExplanation {
+        const lines = code.split('\n');
+        const nonEmptyLines = lines.filter(line => line.trim() !== '');
+        
+        const lineExplanations = lines.map((line, index): LineExplanation | null => {
+            if (!line.trim()) return null;
+            
+            return {
+                lineNumber: index + 1,
+                code: line,
+                explanation: 'This line contains code logic that performs a specific operation.',
+                category: 'other' as const,
+                importance: 'medium' as const
+            };
+        }).filter((exp): exp is LineExplanation => exp !== null);
+
+        return {
+            title: 'Code Explanation (Mock)',
+            overview: 'This code demonstrates various programming concepts and performs computational tasks.',
+            lineByLineExplanations: lineExplanations,
+            summary: {
+                totalLines: nonEmptyLines.length,
+                functions: [],
+                variables: [],
+                classes: [],
+                keyPurpose: 'This code performs various programming operations.',
+                complexity: 'simple' as const
+            }
+        };
+    }
+
+    /**
+     * Simple fallback evaluation using token overlap
+     */
+    evaluateShortAnswerFallback(req: AIEvaluateShortAnswerRequest): AIShortAnswerResult {
+        // More lenient normalization that preserves more meaning
+        const normalize = (s: string) => (s || '')
+            .toLowerCase()
+            .replace(/[^\w\s]/g, ' ') // Keep more characters
+            .split(/\s+/)
+            .filter(w => w.length > 1); // Filter out single chars but keep meaningful words
+        
+        const correctWords = new Set(normalize(req.correctAnswer));
+        const userWords = new Set(normalize(req.userAnswer));
+        
+        // Calculate overlap more generously
+        let matches = 0;
+        userWords.forEach(word => {
+            if (correctWords.has(word)) {
+                matches++;
+            } else {
+                // Check for partial matches (contains or is contained)
+                for (const correctWord of correctWords) {
+                    if (word.includes(correctWord) || correctWord.includes(word)) {
+                        matches += 0.5; // Partial credit for similar words
+                        break;
+                    }
+                }
+            }
+        });
+        
+        const maxPossible = Math.max(correctWords.size, userWords.size, 1);
+        const similarity = matches / maxPossible;
+        
+        // More lenient thresholds
+        let verdict: 'correct' | 'partial' | 'incorrect' = 'incorrect';
+        let score = 0;
+        
+        if (similarity >= 0.6) { // Lowered from 0.8
+            verdict = 'correct';
+            score = 1;
+        } else if (similarity >= 0.3) { // Lowered from 0.5
+            verdict = 'partial';
+            score = 0.7; // More generous partial credit
+        } else if (userWords.size > 0) { // Give some credit for any attempt
+            verdict = 'partial';
+            score = 0.3;
+        }
+        
+        // More appropriate feedback based on actual score
+        let feedback = '';
+        const scorePercent = Math.round(score * 100);
+        
+        if (scorePercent >= 70) {
+            feedback = 'Great job! Your answer captures the key concepts.';
+        } else if (scorePercent >= 30) {
+            feedback = 'Good effort! You got some key points right.';
+        } else if (scorePercent > 0) {
+            feedback = 'Keep trying! You\'re on the right track but need more detail.';
+        } else {
+            feedback = 'Keep trying! Think about the main concepts and try again.';
+        }
+            
+        return { score, verdict, feedback };
+    }
+
+    /**
+     * Strict fallback code modification evaluation - no AI leniency
+     */
+    evaluateCodeModificationFallback(req: AICodeModificationRequest): AICodeModificationResult {
+        const issues: string[] = [];
+        const suggestions: string[] = [];
+        let score = 0;
+        
+        // Basic syntax check
+        const userCode = req.userModifiedCode.trim();
+        const originalCode = req.originalCode.trim();
+        
+        if (!userCode) {
+            issues.push('No code provided');
+            return {
+                score: 0,
+                verdict: 'incorrect',
+                feedback: 'No code submitted. Please provide your modified code.',
+                issues,
+                suggestions: ['Submit your modified code']
+            };
+        }
+        
+        // Check if code was actually modified
+        if (userCode === originalCode) {
+            issues.push('Code was not modified');
+            suggestions.push('You need to modify the original code to meet the requirement');
+            score = 0;
+        } else {
+            // Give some credit for attempting modification
+            score = 0.2;
+        }
+        
+        // Basic syntax checks (simplified)
+        const hasSyntaxErrors = /[\{\[\(](?![^\{\[\(]*[\}\]\)])/.test(userCode) || // Unmatched brackets
+                               /[\}\]\)](?![^\}\]\)]*[\{\[\(])/.test(userCode) || // Extra closing brackets
+                               /[^;]\s*$/.test(userCode.split('\n').pop() || '') && userCode.includes('{'); // Missing semicolons
+        
+        if (hasSyntaxErrors) {
+            issues.push('Potential syntax errors detected');
+            suggestions.push('Check your brackets, parentheses, and semicolons');
+        } else {
+            score += 0.2;
+        }
+        
+        // Check if requirement keywords are present (very basic)
+        const requirementWords = req.requirement.toLowerCase().split(' ').filter(w => w.length > 3);
+        const codeWords = userCode.toLowerCase();
+        const keywordMatches = requirementWords.filter(word => codeWords.includes(word)).length;
+        
+        if (keywordMatches > 0) {
+            score += 0.3 * (keywordMatches / requirementWords.length);
+        } else {
+            issues.push('Code doesn\'t appear to address the requirement');
+            suggestions.push('Re-read the requirement and ensure your code addresses it');
+        }
+        
+        // Determine verdict based on strict criteria
+        let verdict: 'correct' | 'partial' | 'incorrect';
+        if (score >= 0.7) {
+            verdict = 'correct';
+        } else if (score >= 0.3) {
+            verdict = 'partial';
+        } else {
+            verdict = 'incorrect';
+        }
+        
+        // Harsh feedback - no encouragement for poor attempts
+        let feedback: string;
+        if (score >= 0.7) {
+            feedback = 'Code appears to meet basic requirements.';
+        } else if (score >= 0.3) {
+            feedback = 'Code has some issues that need to be addressed.';
+        } else {
+            feedback = 'Code does not meet the requirements. Significant revision needed.';
+        }
+        
+        return { score, verdict, feedback, issues, suggestions };
+    }
+
+    /**
+     * Fallback mock clarification
+     */
+    generateMockClarification(request: AIClarifyRequest): string {
+        return `Here is a clarification for your question: "${request.question}"\n\n- The code operates over ${request.language || 'JavaScript'} constructs.\n- Think about inputs, outputs, and side effects in each function.\n- Focus on how data flows between variables and functions.`;
+    }
+}
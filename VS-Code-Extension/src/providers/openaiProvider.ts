@@ -0,0 +1,106 @@
+/**
+ * OpenAI Provider
+ *
+ * Chat completions through the official OpenAI SDK. Also serves OpenAI-compatible
+ * endpoints configured through `openaiBaseURL`.
+ */
+
+import OpenAI from 'openai';
+import * as vscode from 'vscode';
+import { AICompletionRequest, AICompletionResponse, AIProvider } from '../aiProvider';
+
+export class OpenAIProvider implements AIProvider {
+    readonly id = 'openai';
+    readonly label = 'OpenAI';
+    private client?: OpenAI;
+
+    constructor(private apiKey: string | undefined, readonly model: string, private baseURL?: string) {
+        if (apiKey) {
+            // Retries are handled by the shared request pipeline
+            this.client = new OpenAI({ apiKey, baseURL, maxRetries: 0 });
+        }
+    }
+
+    static fromSettings(settings: vscode.WorkspaceConfiguration, apiKey: string | undefined): OpenAIProvider {
+        return new OpenAIProvider(
+            apiKey,
+            settings.get('openaiModel', 'gpt-4'),
+            settings.get<string>('openaiBaseURL') || undefined
+        );
+    }
+
+    isConfigured(): boolean {
+        return !!this.client;
+    }
+
+    async complete(request: AICompletionRequest): Promise<AICompletionResponse> {
+        if (!this.client) {
+            throw new Error('OpenAI not initialized');
+        }
+
+        const model = request.model || this.model;
+        const completion = await this.client.chat.completions.create({
+            model,
+            messages: request.messages,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens
+        }, {
+            timeout: request.timeout,
+            signal: request.signal
+        });
+
+        const content = completion.choices[0]?.message?.content;
+        if (!content) {
+            throw new Error('No response from OpenAI');
+        }
+
+        return {
+            content,
+            model: completion.model || model,
+            usage: {
+                promptTokens: completion.usage?.prompt_tokens,
+                completionTokens: completion.usage?.completion_tokens
+            }
+        };
+    }
+
+    async stream(request: AICompletionRequest, onText: (delta: string) => void): Promise<AICompletionResponse> {
+        if (!this.client) {
+            throw new Error('OpenAI not initialized');
+        }
+
+        const model = request.model || this.model;
+        const stream = await this.client.chat.completions.create({
+            model,
+            messages: request.messages,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            stream: true,
+            stream_options: { include_usage: true } // Usage arrives in a final chunk with no choices
+        }, {
+            timeout: request.timeout,
+            signal: request.signal
+        });
+
+        const response: AICompletionResponse = { content: '', model };
+        for await (const chunk of stream) {
+            const delta = chunk.choices[0]?.delta?.content;
+            if (delta) {
+                response.content += delta;
+                onText(delta);
+            }
+            response.model = chunk.model || response.model;
+            if (chunk.usage) {
+                response.usage = {
+                    promptTokens: chunk.usage.prompt_tokens,
+                    completionTokens: chunk.usage.completion_tokens
+                };
+            }
+        }
+
+        if (!response.content) {
+            throw new Error('No response from OpenAI');
+        }
+        return response;
+    }
+}
@@ -0,0 +1,201 @@
+/**
+ * Record / Replay Providers
+ *
+ * With `recordFixtures` on, the active provider is wrapped so every request/response
+ * pair is written as a JSON fixture to the `fixturesPath` folder. The `replay`
+ * provider serves those fixtures by request hash, so quiz, explanation and grading
+ * flows can run offline and deterministically, e.g. in CI.
+ */
+
+import * as crypto from 'crypto';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AICompletionRequest, AICompletionResponse, AIProvider } from '../aiProvider';
+
+export interface Fixture {
+    key: string;
+    task: AICompletionRequest['task'];
+    recordedAt: string;
+    provider: string; // Id of the provider that produced the response
+    request: Pick<AICompletionRequest, 'messages' | 'model' | 'temperature' | 'maxTokens' | 'json'>;
+    response: AICompletionResponse;
+}
+
+const STREAM_CHUNK_SIZE = 40; // Characters per replayed text delta
+
+/**
+ * Reads and writes fixtures named `<task>-<hash>.json`
+ */
+export class FixtureStore {
+    constructor(private directory: vscode.Uri) {}
+
+    /**
+     * The store for the `fixturesPath` setting; relative paths resolve against the
+     * first workspace folder, so without one only absolute paths work
+     */
+    static fromSettings(settings: vscode.WorkspaceConfiguration): FixtureStore | undefined {
+        const fixturesPath = settings.get<string>('fixturesPath', '.codequiz/fixtures').trim() || '.codequiz/fixtures';
+        if (path.isAbsolute(fixturesPath)) {
+            return new FixtureStore(vscode.Uri.file(fixturesPath));
+        }
+        const folder = vscode.workspace.workspaceFolders?.[0];
+        return folder ? new FixtureStore(vscode.Uri.joinPath(folder.uri, fixturesPath)) : undefined;
+    }
+
+    /**
+     * Hash of everything that determines the reply; timeouts, signals and the
+     * original AIService request are left out
+     */
+    static key(request: AICompletionRequest): string {
+        return crypto.createHash('sha256').update(JSON.stringify([
+            request.task,
+            request.messages,
+            request.model ?? null,
+            request.temperature ?? null,
+            request.maxTokens ?? null,
+            !!request.json
+        ])).digest('hex');
+    }
+
+    async read(request: AICompletionRequest): Promise<Fixture | undefined> {
+        try {
+            const data = await vscode.workspace.fs.readFile(this.fileFor(request));
+            return JSON.parse(Buffer.from(data).toString('utf8')) as Fixture;
+        } catch {
+            return undefined;
+        }
+    }
+
+    async write(request: AICompletionRequest, response: AICompletionResponse, provider: string): Promise<void> {
+        const fixture: Fixture = {
+            key: FixtureStore.key(request),
+            task: request.task,
+            recordedAt: new Date().toISOString(),
+            provider,
+            request: {
+                messages: request.messages,
+                model: request.model,
+                temperature: request.temperature,
+                maxTokens: request.maxTokens,
+                json: request.json
+            },
+            response
+        };
+
+        try {
+            await vscode.workspace.fs.createDirectory(this.directory);
+            await vscode.workspace.fs.writeFile(this.fileFor(request), Buffer.from(JSON.stringify(fixture, null, 2) + '\n', 'utf8'));
+            console.log(`📼 Recorded ${request.task} fixture ${fixture.key.slice(0, 12)}`);
+        } catch (error) {
+            console.warn('Failed to write AI fixture:', error);
+        }
+    }
+
+    describe(request: AICompletionRequest): string {
+        return vscode.workspace.asRelativePath(this.fileFor(request));
+    }
+
+    private fileFor(request: AICompletionRequest): vscode.Uri {
+        return vscode.Uri.joinPath(this.directory, `${request.task}-${FixtureStore.key(request).slice(0, 16)}.json`);
+    }
+}
+
+/**
+ * Wraps a real provider and records every successful reply as a fixture
+ */
+export class RecordingProvider implements AIProvider {
+    readonly id: string;
+    readonly label: string;
+    readonly stream?: (request: AICompletionRequest, onText: (delta: string) => void) => Promise<AICompletionResponse>;
+
+    constructor(private inner: AIProvider, private fixtures: FixtureStore) {
+        // Keep the wrapped provider's id so settings and cache keys still apply to it
+        this.id = inner.id;
+        this.label = `${inner.label} (recording)`;
+
+        const stream = inner.stream?.bind(inner);
+        if (stream) {
+            this.stream = async (request, onText) => this.record(request, await stream(request, onText));
+        }
+    }
+
+    get model(): string | undefined {
+        return this.inner.model;
+    }
+
+    isConfigured(): boolean {
+        return this.inner.isConfigured();
+    }
+
+    async complete(request: AICompletionRequest): Promise<AICompletionResponse> {
+        return this.record(request, await this.inner.complete(request));
+    }
+
+    private async record(request: AICompletionRequest, response: AICompletionResponse): Promise<AICompletionResponse> {
+        await this.fixtures.write(request, response, this.inner.id);
+        return response;
+    }
+}
+
+/**
+ * Serves recorded fixtures; a request without a fixture fails with `fixture_missing`
+ */
+export class ReplayProvider implements AIProvider {
+    readonly id = 'replay';
+    readonly label = 'Replay';
+    readonly model = undefined;
+
+    constructor(private fixtures: FixtureStore | undefined) {}
+
+    static fromSettings(settings: vscode.WorkspaceConfiguration): ReplayProvider {
+        return new ReplayProvider(FixtureStore.fromSettings(settings));
+    }
+
+    isConfigured(): boolean {
+        return !!this.fixtures;
+    }
+
+    async complete(request: AICompletionRequest): Promise<AICompletionResponse> {
+        return this.replay(request);
+    }
+
+    async stream(request: AICompletionRequest, onText: (delta: string) => void): Promise<AICompletionResponse> {
+        const response = await this.replay(request);
+        // Replay in small pieces so streaming consumers see partial output as they would live
+        for (let offset = 0; offset < response.content.length; offset += STREAM_CHUNK_SIZE) {
+            this.throwIfAborted(request.signal);
+            onText(response.content.slice(offset, offset + STREAM_CHUNK_SIZE));
+        }
+        return response;
+    }
+
+    private async replay(request: AICompletionRequest): Promise<AICompletionResponse> {
+        this.throwIfAborted(request.signal);
+        if (!this.fixtures) {
+            throw new Error('Replay provider needs an open workspace folder or an absolute fixturesPath');
+        }
+
+        const fixture = await this.fixtures.read(request);
+        if (!fixture) {
+            throw Object.assign(
+                new Error(`No recorded fixture for this ${request.task} request (expected ${this.fixtures.describe(request)})`),
+                { code: 'fixture_missing' }
+            );
+        }
+
+        // Replayed replies cost nothing, so they never count towards the monthly token cap
+        return {
+            content: fixture.response.content,
+            model: fixture.response.model,
+            usage: { promptTokens: 0, completionTokens: 0 }
+        };
+    }
+
+    private throwIfAborted(signal?: AbortSignal): void {
+        if (signal?.aborted) {
+            const error = new Error('Request cancelled');
+            error.name = 'AbortError';
+            throw error;
+        }
+    }
+}
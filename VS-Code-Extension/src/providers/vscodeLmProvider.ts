@@ -0,0 +1,132 @@
+/**
+ * VS Code Language Model Provider
+ *
+ * Chat completions through the VS Code Language Model API (`vscode.lm`), using chat
+ * models other extensions make available, such as GitHub Copilot. No API key is
+ * needed; VS Code asks the user once to allow the extension to use the models.
+ */
+
+import * as vscode from 'vscode';
+import { AICompletionRequest, AICompletionResponse, AIProvider } from '../aiProvider';
+
+const JUSTIFICATION = 'Code Quiz & Explainer uses a language model to generate quizzes, explanations and feedback for your code.';
+
+export class VSCodeLMProvider implements AIProvider {
+    readonly id = 'vscode-lm';
+    readonly label = 'VS Code language model';
+
+    constructor(private vendor: string, private family: string | undefined) {}
+
+    static fromSettings(settings: vscode.WorkspaceConfiguration): VSCodeLMProvider {
+        return new VSCodeLMProvider(
+            settings.get<string>('vscodeLmVendor', 'copilot').trim(),
+            settings.get<string>('vscodeLmFamily', '').trim() || undefined
+        );
+    }
+
+    get model(): string | undefined {
+        return this.family;
+    }
+
+    isConfigured(): boolean {
+        // Whether a matching model is installed is only known once one is selected
+        return typeof vscode.lm?.selectChatModels === 'function';
+    }
+
+    async complete(request: AICompletionRequest): Promise<AICompletionResponse> {
+        return this.send(request);
+    }
+
+    async stream(request: AICompletionRequest, onText: (delta: string) => void): Promise<AICompletionResponse> {
+        return this.send(request, onText);
+    }
+
+    private async send(request: AICompletionRequest, onText?: (delta: string) => void): Promise<AICompletionResponse> {
+        const model = await this.selectModel(request.model);
+        const messages = request.messages.map(message => message.role === 'assistant'
+            ? vscode.LanguageModelChatMessage.Assistant(message.content)
+            // The API has no system role; instructions are sent as a user message
+            : vscode.LanguageModelChatMessage.User(message.content)
+        );
+
+        // Bridge the request's AbortSignal and timeout to a cancellation token
+        const cancellation = new vscode.CancellationTokenSource();
+        let timedOut = false;
+        const onAbort = () => cancellation.cancel();
+        request.signal?.addEventListener('abort', onAbort, { once: true });
+        const timer = request.timeout
+            ? setTimeout(() => {
+                timedOut = true;
+                cancellation.cancel();
+            }, request.timeout)
+            : undefined;
+
+        let content = '';
+        try {
+            const response = await model.sendRequest(messages, { justification: JUSTIFICATION }, cancellation.token);
+            for await (const delta of response.text) {
+                content += delta;
+                onText?.(delta);
+            }
+        } catch (error) {
+            throw this.toError(error, request.signal, timedOut);
+        } finally {
+            clearTimeout(timer);
+            request.signal?.removeEventListener('abort', onAbort);
+            cancellation.dispose();
+        }
+
+        if (!content) {
+            throw new Error(`No response from ${model.name}`);
+        }
+
+        return {
+            content,
+            model: model.id,
+            usage: {
+                promptTokens: await this.countTokens(model, request.messages.map(message => message.content)),
+                completionTokens: await this.countTokens(model, [content])
+            }
+        };
+    }
+
+    /**
+     * Pick the first chat model matching the vendor and family; a per-task model setting selects the family
+     */
+    private async selectModel(family?: string): Promise<vscode.LanguageModelChat> {
+        const selector: vscode.LanguageModelChatSelector = {
+            vendor: this.vendor || undefined,
+            family: family || this.family
+        };
+        const [model] = await vscode.lm.selectChatModels(selector);
+        if (!model) {
+            const description = [selector.vendor, selector.family].filter(Boolean).join(' / ') || 'any';
+            throw new Error(`No VS Code chat model available for ${description}. Install and sign in to a chat extension such as GitHub Copilot.`);
+        }
+        return model;
+    }
+
+    private async countTokens(model: vscode.LanguageModelChat, texts: string[]): Promise<number | undefined> {
+        try {
+            const counts = await Promise.all(texts.map(text => model.countTokens(text)));
+            return counts.reduce((sum, count) => sum + count, 0);
+        } catch {
+            return undefined; // AIService estimates missing counts
+        }
+    }
+
+    /**
+     * Map cancellations to the errors the request pipeline understands
+     */
+    private toError(error: any, signal: AbortSignal | undefined, timedOut: boolean): Error {
+        if (signal?.aborted) {
+            const aborted = new Error('Request cancelled');
+            aborted.name = 'AbortError';
+            return aborted;
+        }
+        if (timedOut) {
+            return Object.assign(new Error('VS Code language model request timed out'), { code: 'timeout' });
+        }
+        return error instanceof Error ? error : new Error(String(error));
+    }
+}
@@ -6,7 +6,11 @@
  */
 
 import * as vscode from 'vscode';
-import { AIService } from './aiService';
+import { AIRequestOptions, AIService } from './aiService';
+import { isCancellationError } from './aiProvider';
+import { CodeChunk, splitIntoChunks } from './codeChunker';
+import { analyzeCode, CodeAnalysis, CodeSymbol, qualifiedName } from './codeAnalyzer';
+import { DetectedLanguage } from './languageDetector';
 
 export interface QuizQuestion {
     id: string;
@@ -24,20 +28,87 @@ export interface Quiz {
     title: string;
     questions: QuizQuestion[];
     totalQuestions: number;
+    language?: string; // Language the quiz was generated for; answers are graded in it
 }
 
+/**
+ * Plausible wrong answers for questions about analyzed code, used after the
+ * code's own names run out
+ */
+interface Distractors {
+    types: string[];
+    modules: string[];
+    calls: string[];
+    bases: string[];
+}
+
+const JAVASCRIPT_DISTRACTORS: Distractors = {
+    types: ['void', 'string', 'number', 'boolean', 'Promise<void>'],
+    modules: ['fs', 'path', './utils', 'lodash'],
+    calls: ['fetch', 'setTimeout', 'JSON.parse', 'console.error'],
+    bases: ['Object', 'Error', 'EventEmitter']
+};
+
+const C_DISTRACTORS: Distractors = {
+    types: ['void', 'int', 'char *', 'double', 'bool'],
+    modules: ['stdio.h', 'stdlib.h', 'string.h', 'math.h'],
+    calls: ['malloc', 'printf', 'strlen', 'memcpy'],
+    bases: ['std::exception', 'Base', 'Object']
+};
+
+const DISTRACTORS: Record<string, Distractors> = {
+    JavaScript: JAVASCRIPT_DISTRACTORS,
+    TypeScript: JAVASCRIPT_DISTRACTORS,
+    Python: {
+        types: ['None', 'str', 'int', 'bool', 'list'],
+        modules: ['os', 'sys', 'json', 'typing'],
+        calls: ['print', 'len', 'open', 'sorted'],
+        bases: ['object', 'Exception', 'dict']
+    },
+    Java: {
+        types: ['void', 'String', 'int', 'boolean', 'List<String>'],
+        modules: ['java.util', 'java.io', 'java.time', 'java.util.stream'],
+        calls: ['System.out.println', 'Objects.equals', 'List.of', 'String.format'],
+        bases: ['Object', 'Exception', 'Thread']
+    },
+    Go: {
+        types: ['error', 'string', 'int', 'bool', '[]byte'],
+        modules: ['fmt', 'strings', 'os', 'errors'],
+        calls: ['fmt.Println', 'make', 'len', 'errors.New'],
+        bases: []
+    },
+    Rust: {
+        types: ['()', 'String', 'bool', 'Result<(), String>', 'Option<usize>'],
+        modules: ['std::io', 'std::fs', 'std::fmt', 'std::collections'],
+        calls: ['println!', 'Vec::new', 'format!', 'String::from'],
+        bases: []
+    },
+    C: C_DISTRACTORS,
+    'C++': {
+        ...C_DISTRACTORS,
+        types: ['void', 'int', 'std::string', 'bool', 'std::vector<int>'],
+        modules: ['iostream', 'vector', 'string', 'memory']
+    },
+    'C#': {
+        types: ['void', 'string', 'int', 'bool', 'Task'],
+        modules: ['System.Linq', 'System.IO', 'System.Text', 'System.Threading.Tasks'],
+        calls: ['Console.WriteLine', 'string.Format', 'Math.Max', 'Task.Run'],
+        bases: ['Exception', 'IDisposable', 'object']
+    }
+};
+
 export class QuizGenerator {
     private aiService: AIService;
     
-    constructor() {
-        this.aiService = new AIService();
+    constructor(aiService: AIService) {
+        this.aiService = aiService;
     }
     
     /**
      * Main method to generate a quiz from code
      * Uses AI when configured, falls back to rule-based generation
      */
-    async generateQuiz(code: string, fileExtension?: string): Promise<Quiz> {
+    async generateQuiz(code: string, detected: DetectedLanguage, options: AIRequestOptions = {}): Promise<Quiz> {
         console.log('Generating quiz for code:', code.substring(0, 100) + '...');
         
         try {
@@ -45,37 +116,108 @@ export class QuizGenerator {
             const config = vscode.workspace.getConfiguration('codeQuizExplainer');
             const difficulty = config.get('quizDifficulty', 'intermediate') as 'beginner' | 'intermediate' | 'advanced';
             const questionCount = config.get('questionCount', 5) as number;
-            const language = this.detectLanguageFromExtension(fileExtension) || 'JavaScript';
+            const language = detected.name;
             
-            console.log(`Detected language: ${language} (from extension: ${fileExtension})`);
+            console.log(`Detected language: ${language} (from ${detected.source}, confidence ${detected.confidence})`);
             
+            // Large code is quizzed in chunks that fit the token budget
+            const chunks = splitIntoChunks(code, Math.max(0, config.get<number>('tokenBudget', 6000)));
+            if (chunks.length > 1) {
+                console.log(`Generating quiz from ${chunks.length} chunks`);
+                return { ...await this.quizInChunks(chunks, language, difficulty, questionCount, options), language };
+            }
+
             // Try AI generation first
             const aiQuiz = await this.aiService.generateQuiz({
                 code,
                 language,
                 difficulty,
                 questionCount
-            });
+            }, options);
             
-            return aiQuiz;
+            return { ...aiQuiz, language };
             
         } catch (error) {
+            if (options.signal?.aborted || options.token?.isCancellationRequested || isCancellationError(error)) {
+                throw error;
+            }
             console.log('AI generation failed, using fallback:', error);
             
             // Fallback to rule-based generation
-            const language = this.detectLanguageFromExtension(fileExtension) || 'JavaScript';
-            return this.generateFallbackQuiz(code, language);
+            return { ...await this.generateFallbackQuiz(code, detected), language: detected.name };
+        }
+    }
+
+    /**
+     * Spread the questions over the chunks by size, quiz the chunks concurrently
+     * (the request pipeline limits how many run at once) and merge the results
+     */
+    private async quizInChunks(
+        chunks: CodeChunk[],
+        language: string,
+        difficulty: 'beginner' | 'intermediate' | 'advanced',
+        questionCount: number,
+        options: AIRequestOptions
+    ): Promise<Quiz> {
+        const counts = this.allocateQuestions(chunks, questionCount);
+        const quizzes = await Promise.all(chunks.map((chunk, index) => counts[index] > 0
+            ? this.aiService.generateQuiz({ code: chunk.code, language, difficulty, questionCount: counts[index] }, options)
+            : undefined
+        ));
+
+        const generated = quizzes.filter((quiz): quiz is Quiz => !!quiz);
+        // Question ids repeat across chunks; renumber them so answers map to the right question
+        const questions = generated
+            .flatMap(quiz => quiz.questions)
+            .map((question, index) => ({ ...question, id: `q${index + 1}` }));
+
+        return {
+            title: generated[0]?.title || 'Code Understanding Quiz',
+            questions,
+            totalQuestions: questions.length
+        };
+    }
+
+    /**
+     * Questions per chunk: one for each chunk (the largest ones if there are more chunks
+     * than questions), the rest in proportion to chunk size
+     */
+    private allocateQuestions(chunks: CodeChunk[], questionCount: number): number[] {
+        const counts = chunks.map(() => 0);
+        const bySize = chunks.map((_, index) => index).sort((a, b) => chunks[b].tokens - chunks[a].tokens);
+        bySize.slice(0, questionCount).forEach(index => counts[index] = 1);
+
+        const remaining = questionCount - Math.min(questionCount, chunks.length);
+        const totalTokens = chunks.reduce((sum, chunk) => sum + chunk.tokens, 0);
+        const shares = chunks.map(chunk => remaining * chunk.tokens / totalTokens);
+        shares.forEach((share, index) => counts[index] += Math.floor(share));
+
+        // Hand out what rounding left over to the largest remainders
+        let leftover = remaining - shares.reduce((sum, share) => sum + Math.floor(share), 0);
+        const byRemainder = shares.map((_, index) => index).sort((a, b) => (shares[b] % 1) - (shares[a] % 1));
+        for (const index of byRemainder) {
+            if (leftover-- <= 0) {
+                break;
+            }
+            counts[index]++;
         }
+
+        return counts;
     }
 
     /**
      * Parse code to identify functions, variables, classes, etc.
-     * This is a simple implementation - can be enhanced with proper AST parsing
+     * Languages with a syntax-tree analyzer use it; the rest fall back to line patterns
      */
-    private parseCodeComponents(code: string): CodeComponent[] {
+    private async parseCodeComponents(code: string, language: DetectedLanguage): Promise<CodeComponent[]> {
         const components: CodeComponent[] = [];
         const lines = code.split('\n');
 
+        const analysis = await analyzeCode(code, language);
+        if (analysis) {
+            return this.componentsFromAnalysis(analysis, lines);
+        }
+
         for (let i = 0; i < lines.length; i++) {
             const line = lines[i].trim();
             
@@ -123,18 +265,72 @@ export class QuizGenerator {
         return components;
     }
 
+    /**
+     * Components from a syntax-tree analysis: named functions with their parameters,
+     * return types and calls, classes and other types, imports, non-local variables and control flow
+     */
+    private componentsFromAnalysis(analysis: CodeAnalysis, lines: string[]): CodeComponent[] {
+        const content = (line: number) => lines[line - 1]?.trim() ?? '';
+        const functions = new Set(analysis.symbols
+            .filter(symbol => symbol.kind === 'function' || symbol.kind === 'method')
+            .map(qualifiedName));
+        const components: CodeComponent[] = [];
+
+        for (const symbol of analysis.symbols) {
+            const base = { name: symbol.name, line: symbol.line, content: content(symbol.line), symbol };
+            if (symbol.name === 'constructor') {
+                continue; // Rarely worth a question next to the class itself
+            }
+            if (functions.has(qualifiedName(symbol))) {
+                const calls = analysis.calls
+                    .filter(call => call.scope === qualifiedName(symbol) && call.callee !== 'super')
+                    .map(call => call.callee);
+                components.push({ ...base, type: 'function', calls: [...new Set(calls)] });
+            } else if (['class', 'struct', 'interface', 'enum'].includes(symbol.kind)) {
+                components.push({ ...base, type: 'class' });
+            } else if (['variable', 'constant', 'property'].includes(symbol.kind) && !(symbol.scope && functions.has(symbol.scope))) {
+                components.push({ ...base, type: 'variable' }); // Locals such as loop counters make poor questions
+            }
+        }
+
+        for (const imported of analysis.imports) {
+            components.push({
+                type: 'import',
+                name: imported.names[0] ?? imported.module,
+                line: imported.line,
+                content: content(imported.line),
+                module: imported.module
+            });
+        }
+
+        for (const statement of analysis.controlFlow) {
+            if (['if', 'for', 'while', 'switch'].includes(statement.kind)) {
+                components.push({ type: 'control-flow', name: statement.kind, line: statement.line, content: content(statement.line) });
+            }
+        }
+
+        // Lead with one component of each type, functions first, so a short quiz is not all imports
+        const priority: CodeComponent['type'][] = ['function', 'class', 'import', 'variable', 'control-flow'];
+        components.sort((a, b) => a.line - b.line);
+        const firsts = components
+            .filter((component, index) => components.findIndex(other => other.type === component.type) === index)
+            .sort((a, b) => priority.indexOf(a.type) - priority.indexOf(b.type));
+        return [...firsts, ...components.filter(component => !firsts.includes(component))];
+    }
+
     /**
      * Fallback quiz generation using rule-based approach
      */
-    private generateFallbackQuiz(code: string, language: string): Quiz {
+    private async generateFallbackQuiz(code: string, detected: DetectedLanguage): Promise<Quiz> {
+        const language = detected.name;
         console.log('🚀 Generating fallback quiz for language:', language);
         
         // Parse the code to identify different components
-        const codeComponents = this.parseCodeComponents(code);
+        const codeComponents = await this.parseCodeComponents(code, detected);
         console.log('🚀 Found code components:', codeComponents.length);
         
         // Generate questions based on the components found
-        const questions = this.generateQuestionsFromComponents(codeComponents, code, language);
+        const questions = this.generateQuestionsFromComponents(codeComponents, code, detected);
         console.log('🚀 Generated questions:', questions.length);
         
         return {
@@ -148,15 +344,15 @@ export class QuizGenerator {
      * Generate quiz questions based on identified code components
      * Used as fallback when AI is not available
      */
-    private generateQuestionsFromComponents(components: CodeComponent[], originalCode: string, language: string): QuizQuestion[] {
+    private generateQuestionsFromComponents(components: CodeComponent[], originalCode: string, detected: DetectedLanguage): QuizQuestion[] {
         const questions: QuizQuestion[] = [];
 
         // Add some general questions about the code structure
-        questions.push(...this.generateGeneralQuestions(originalCode, language));
+        questions.push(...this.generateGeneralQuestions(originalCode, detected));
 
         // Generate specific questions for each component
         components.forEach((component, index) => {
-            questions.push(...this.generateComponentQuestions(component, index));
+            questions.push(...this.generateComponentQuestions(component, index, components, detected.name));
         });
 
         // Limit to 5 questions maximum for better UX
@@ -166,7 +362,7 @@ export class QuizGenerator {
     /**
      * Generate general questions about the overall code
      */
-    private generateGeneralQuestions(code: string, language: string): QuizQuestion[] {
+    private generateGeneralQuestions(code: string, detected: DetectedLanguage): QuizQuestion[] {
         const questions: QuizQuestion[] = [];
 
         // Count lines for a basic question
@@ -187,16 +383,21 @@ export class QuizGenerator {
             codeSnippet: code.substring(0, 200) + '...'
         });
 
-        // Add language detection question using the detected language
-        questions.push({
-            id: 'general-2',
-            type: 'multiple-choice',
-            question: 'What programming language is this code written in?',
-            options: ['JavaScript', 'Python', 'Java', 'C++'],
-            correctAnswer: language,
-            explanation: `This appears to be ${language} code based on the file extension and syntax patterns.`,
-            codeSnippet: code.substring(0, 200) + '...'
-        });
+        // Only ask about the language when it is known rather than a shaky guess
+        if (detected.confidence >= 0.5) {
+            const language = detected.name;
+            questions.push({
+                id: 'general-2',
+                type: 'multiple-choice',
+                question: 'What programming language is this code written in?',
+                options: this.choices(language, ['JavaScript', 'Python', 'Java', 'C++', 'TypeScript'], lineCount),
+                correctAnswer: language,
+                explanation: detected.source === 'content'
+                    ? `This appears to be ${language} code based on its syntax patterns.`
+                    : `The editor marks this code as ${language}.`,
+                codeSnippet: code.substring(0, 200) + '...'
+            });
+        }
 
         return questions;
     }
@@ -204,8 +405,16 @@ export class QuizGenerator {
     /**
      * Generate questions specific to a code component
      */
-    private generateComponentQuestions(component: CodeComponent, index: number): QuizQuestion[] {
+    private generateComponentQuestions(component: CodeComponent, index: number, components: CodeComponent[], language: string): QuizQuestion[] {
         const questions: QuizQuestion[] = [];
+        const distractors = DISTRACTORS[language] ?? JAVASCRIPT_DISTRACTORS;
+
+        if (component.symbol) {
+            const detailed = this.generateSymbolQuestions(component, component.symbol, index, components, distractors);
+            if (detailed.length > 0) {
+                return detailed;
+            }
+        }
 
         switch (component.type) {
             case 'function':
@@ -259,11 +468,140 @@ export class QuizGenerator {
                     codeSnippet: component.content
                 });
                 break;
+
+            case 'import': {
+                const modules = components.filter(other => other.module).map(other => other.module!);
+                questions.push({
+                    id: `import-${index}`,
+                    type: 'multiple-choice',
+                    // C includes and C# usings bind no names of their own
+                    question: component.name === component.module
+                        ? `Which module is imported on line ${component.line}?`
+                        : `Which module is "${component.name}" imported from?`,
+                    options: this.choices(component.module!, [...modules, ...distractors.modules], index),
+                    correctAnswer: component.module!,
+                    explanation: `Line ${component.line} imports "${component.name}" from the "${component.module}" module.`,
+                    codeSnippet: component.content
+                });
+                break;
+            }
         }
 
         return questions;
     }
 
+    /**
+     * Questions that need syntax-tree details: return and parameter types, calls and
+     * base classes. Empty when the symbol has none of those details.
+     */
+    private generateSymbolQuestions(
+        component: CodeComponent,
+        symbol: CodeSymbol,
+        index: number,
+        components: CodeComponent[],
+        distractors: Distractors
+    ): QuizQuestion[] {
+        const questions: QuizQuestion[] = [];
+        const name = qualifiedName(symbol);
+        const others = components.filter(other => other.symbol && other !== component).map(other => other.symbol!);
+
+        if (component.type === 'function' && symbol.parameters) {
+            const parameters = symbol.parameters;
+            const parameterList = parameters.map(parameter => parameter.type ? `${parameter.name}: ${parameter.type}` : parameter.name).join(', ');
+
+            if (symbol.returnType) {
+                const returnTypes = others.map(other => other.returnType).filter((type): type is string => !!type);
+                questions.push({
+                    id: `function-${index}`,
+                    type: 'multiple-choice',
+                    question: `What type of value does "${name}" on line ${component.line} return?`,
+                    options: this.choices(symbol.returnType, [...returnTypes, ...distractors.types], index),
+                    correctAnswer: symbol.returnType,
+                    explanation: `"${name}(${parameterList})" returns ${symbol.returnType}.`,
+                    codeSnippet: component.content
+                });
+            } else {
+                const count = parameters.length;
+                questions.push({
+                    id: `function-${index}`,
+                    type: 'multiple-choice',
+                    question: `How many parameters does "${name}" on line ${component.line} take?`,
+                    options: this.choices(String(count), [count + 1, count + 2, count - 1, count + 3].filter(n => n >= 0).map(String), index),
+                    correctAnswer: String(count),
+                    explanation: count > 0
+                        ? `"${name}" takes ${count} parameter${count > 1 ? 's' : ''}: ${parameterList}.`
+                        : `"${name}" takes no parameters.`,
+                    codeSnippet: component.content
+                });
+            }
+
+            if (component.calls && component.calls.length > 0) {
+                const notCalled = others
+                    .filter(other => other.kind === 'function' || other.kind === 'method')
+                    .map(other => other.name)
+                    .filter(other => !component.calls!.includes(other));
+                questions.push({
+                    id: `calls-${index}`,
+                    type: 'multiple-choice',
+                    question: `Which of these does "${name}" call?`,
+                    options: this.choices(component.calls[0], [...notCalled, ...distractors.calls]
+                        .filter(callee => !component.calls!.includes(callee)), index),
+                    correctAnswer: component.calls[0],
+                    explanation: `"${name}" calls ${component.calls.map(callee => `"${callee}"`).join(', ')}.`,
+                    codeSnippet: component.content
+                });
+            }
+        }
+
+        if (component.type === 'class' && symbol.kind !== 'class') {
+            const label = symbol.kind.charAt(0).toUpperCase() + symbol.kind.slice(1);
+            questions.push({
+                id: `class-${index}`,
+                type: 'multiple-choice',
+                question: `What kind of type does line ${component.line} declare?`,
+                options: this.choices(label, ['Class', 'Struct', 'Interface', 'Enum'], index),
+                correctAnswer: label,
+                explanation: `Line ${component.line} declares the ${symbol.kind} "${name}".`,
+                codeSnippet: component.content
+            });
+        } else if (component.type === 'class' && symbol.extends) {
+            const classes = others.filter(other => other.kind === 'class').map(other => other.name);
+            questions.push({
+                id: `class-${index}`,
+                type: 'multiple-choice',
+                question: `Which class does "${name}" extend?`,
+                options: this.choices(symbol.extends, [...classes, ...distractors.bases], index),
+                correctAnswer: symbol.extends,
+                explanation: `"${name}" extends ${symbol.extends}, so it inherits its members.`,
+                codeSnippet: component.content
+            });
+        }
+
+        if (component.type === 'variable' && symbol.type) {
+            const types = others.map(other => other.type).filter((type): type is string => !!type);
+            questions.push({
+                id: `variable-${index}`,
+                type: 'multiple-choice',
+                question: `What is the type of "${name}" on line ${component.line}?`,
+                options: this.choices(symbol.type, [...types, ...distractors.types], index),
+                correctAnswer: symbol.type,
+                explanation: `"${name}" ${symbol.kind === 'constant' ? 'is a constant' : 'holds a value'} of type ${symbol.type}.`,
+                codeSnippet: component.content
+            });
+        }
+
+        return questions;
+    }
+
+    /**
+     * Up to four distinct options; the correct answer's position varies with the question index
+     */
+    private choices(correct: string, candidates: string[], index: number): string[] {
+        const options = [...new Set(candidates)].filter(candidate => candidate !== correct).slice(0, 3);
+        options.splice(index % (options.length + 1), 0, correct);
+        return options;
+    }
+
     // Helper methods for parsing code components
 
     private extractFunctionName(line: string): string {
@@ -282,111 +620,6 @@ export class QuizGenerator {
     }
 
 
-    /**
-     * Detect language from file extension (more reliable than pattern matching)
-     */
-    private detectLanguageFromExtension(extension?: string): string | null {
-        if (!extension) return null;
-        
-        const ext = extension.toLowerCase();
-        
-        switch (ext) {
-            case 'js':
-            case 'jsx':
-            case 'mjs':
-                return 'JavaScript';
-            
-            case 'ts':
-            case 'tsx':
-                return 'TypeScript';
-            
-            case 'py':
-            case 'pyw':
-            case 'pyc':
-                return 'Python';
-            
-            case 'java':
-                return 'Java';
-            
-            case 'cs':
-                return 'C#';
-            
-            case 'cpp':
-            case 'cc':
-            case 'cxx':
-            case 'c++':
-                return 'C++';
-            
-            case 'c':
-            case 'h':
-                return 'C';
-            
-            case 'go':
-                return 'Go';
-            
-            case 'rs':
-                return 'Rust';
-            
-            case 'php':
-                return 'PHP';
-            
-            case 'rb':
-                return 'Ruby';
-            
-            case 'swift':
-                return 'Swift';
-            
-            case 'kt':
-            case 'kts':
-                return 'Kotlin';
-            
-            case 'scala':
-                return 'Scala';
-            
-            case 'r':
-                return 'R';
-            
-            case 'dart':
-                return 'Dart';
-            
-            case 'lua':
-                return 'Lua';
-            
-            case 'pl':
-            case 'pm':
-                return 'Perl';
-            
-            case 'sh':
-            case 'bash':
-                return 'Shell';
-            
-            case 'ps1':
-                return 'PowerShell';
-            
-            case 'sql':
-                return 'SQL';
-            
-            case 'html':
-            case 'htm':
-                return 'HTML';
-            
-            case 'css':
-                return 'CSS';
-            
-            case 'json':
-                return 'JSON';
-            
-            case 'xml':
-                return 'XML';
-            
-            case 'yaml':
-            case 'yml':
-                return 'YAML';
-            
-            default:
-                return null; // Unknown extension
-        }
-    }
 
     private getControlFlowType(controlName: string): string {
         switch (controlName) {
@@ -403,9 +636,12 @@ export class QuizGenerator {
  * Interface representing a parsed code component
  */
 interface CodeComponent {
-    type: 'function' | 'variable' | 'class' | 'control-flow';
+    type: 'function' | 'variable' | 'class' | 'control-flow' | 'import';
     name: string;
     line: number;
     content: string;
+    symbol?: CodeSymbol; // Syntax-tree details, for languages with an analyzer
+    calls?: string[]; // Functions called from a function's body
+    module?: string; // Imports
 }
 
@@ -0,0 +1,178 @@
+/**
+ * Quiz History Module
+ *
+ * Records every quiz attempt in the extension's global storage: which code it was
+ * about (by hash, and the file when there was one), the questions, the answers
+ * given and the score of each. Attempts are saved after every answer, so closing a
+ * quiz halfway keeps what was answered. The history panel lists them and can start
+ * a quiz again.
+ */
+
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import { Quiz } from './quizGenerator';
+
+export interface QuizAnswer {
+    questionId: string;
+    answer: string;
+    score: number; // 0–1; multiple choice is all or nothing, the rest is graded by the AI
+    feedback?: string;
+    answeredAt: number;
+}
+
+export interface QuizAttempt {
+    id: string;
+    codeHash: string;
+    code?: string; // Shown again when the quiz is retaken; review sessions have none
+    file?: string; // Workspace-relative path of the document the code was quizzed from or pasted into
+    review?: boolean; // A review session of due questions rather than a quiz on code
+    language?: string;
+    quiz: Quiz;
+    answers: QuizAnswer[]; // In the order they were given
+    startedAt: number;
+    updatedAt: number;
+}
+
+/**
+ * Where a quiz's code came from
+ */
+export interface QuizOrigin {
+    codeHash: string;
+    file?: string;
+    review?: boolean;
+}
+
+const HISTORY_FILE = 'quiz-history.json';
+const MAX_ATTEMPTS = 200; // Least recently updated attempts are dropped first
+
+export class QuizHistory implements vscode.Disposable {
+    private attempts?: Map<string, QuizAttempt>;
+    private loading?: Promise<Map<string, QuizAttempt>>;
+    private fileUri: vscode.Uri;
+    private answerEmitter = new vscode.EventEmitter<{ attempt: QuizAttempt; answer: QuizAnswer }>();
+
+    readonly onDidRecordAnswer = this.answerEmitter.event;
+
+    constructor(private storageUri: vscode.Uri) {
+        this.fileUri = vscode.Uri.joinPath(storageUri, HISTORY_FILE);
+    }
+
+    /**
+     * Attempts are grouped by the code itself, wherever it was quizzed from
+     */
+    static key(code: string): string {
+        return crypto.createHash('sha256').update(code).digest('hex');
+    }
+
+    /**
+     * A new, unanswered attempt at `quiz` on `code`; it is stored once the first answer is recorded
+     */
+    static start(quiz: Quiz, code: string, origin: QuizOrigin): QuizAttempt {
+        const now = Date.now();
+        return {
+            id: `${now.toString(36)}-${crypto.randomBytes(4).toString('hex')}`,
+            codeHash: origin.codeHash,
+            code: code || undefined,
+            file: origin.file,
+            review: origin.review,
+            language: quiz.language,
+            quiz,
+            answers: [],
+            startedAt: now,
+            updatedAt: now
+        };
+    }
+
+    /**
+     * All attempts, most recent first
+     */
+    async list(): Promise<QuizAttempt[]> {
+        const attempts = await this.load();
+        return [...attempts.values()].sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    async get(id: string): Promise<QuizAttempt | undefined> {
+        return (await this.load()).get(id);
+    }
+
+    /**
+     * Add or replace the answer to one question and store the attempt
+     */
+    async recordAnswer(attempt: QuizAttempt, answer: QuizAnswer): Promise<void> {
+        attempt.answers = [...attempt.answers.filter(existing => existing.questionId !== answer.questionId), answer];
+        attempt.updatedAt = answer.answeredAt;
+
+        const attempts = await this.load();
+        attempts.set(attempt.id, attempt);
+        this.evict(attempts);
+        await this.save();
+        this.answerEmitter.fire({ attempt, answer });
+    }
+
+    async delete(id: string): Promise<void> {
+        const attempts = await this.load();
+        if (attempts.delete(id)) {
+            await this.save();
+        }
+    }
+
+    async clear(): Promise<void> {
+        const attempts = await this.load();
+        attempts.clear();
+        await this.save();
+    }
+
+    dispose(): void {
+        this.answerEmitter.dispose();
+    }
+
+    private evict(attempts: Map<string, QuizAttempt>): void {
+        const byUpdate = [...attempts.values()].sort((a, b) => a.updatedAt - b.updatedAt);
+        for (const attempt of byUpdate.slice(0, Math.max(0, attempts.size - MAX_ATTEMPTS))) {
+            attempts.delete(attempt.id);
+        }
+    }
+
+    private async load(): Promise<Map<string, QuizAttempt>> {
+        if (this.attempts) {
+            return this.attempts;
+        }
+        if (!this.loading) {
+            this.loading = this.readFile().then(attempts => this.attempts = attempts);
+        }
+        return this.loading;
+    }
+
+    private async readFile(): Promise<Map<string, QuizAttempt>> {
+        try {
+            const data = await vscode.workspace.fs.readFile(this.fileUri);
+            const parsed = JSON.parse(Buffer.from(data).toString('utf8')) as QuizAttempt[];
+            return new Map(parsed.map(attempt => [attempt.id, attempt]));
+        } catch {
+            // Missing or corrupt history files start out empty
+            return new Map();
+        }
+    }
+
+    private async save(): Promise<void> {
+        if (!this.attempts) {
+            return;
+        }
+
+        try {
+            await vscode.workspace.fs.createDirectory(this.storageUri);
+            const data = JSON.stringify([...this.attempts.values()]);
+            await vscode.workspace.fs.writeFile(this.fileUri, Buffer.from(data, 'utf8'));
+        } catch (error) {
+            console.warn('Failed to persist quiz history:', error);
+        }
+    }
+}
+
+/**
+ * Score of an attempt as a fraction of the quiz; unanswered questions count as 0
+ */
+export function attemptScore(attempt: QuizAttempt): number {
+    const total = attempt.answers.reduce((sum, answer) => sum + answer.score, 0);
+    return attempt.quiz.questions.length ? total / attempt.quiz.questions.length : 0;
+}
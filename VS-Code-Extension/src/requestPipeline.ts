@@ -0,0 +1,220 @@
+/**
+ * Request Pipeline Module
+ *
+ * Every provider call made by AIService goes through the shared pipeline, which
+ * limits how many requests run at once and retries transient failures (rate limits,
+ * overloaded or unreachable servers, timeouts) with exponential backoff, honoring
+ * `Retry-After` when the server sends one. Cancellation is driven by an AbortSignal,
+ * which can be linked to a `vscode.CancellationToken`.
+ */
+
+import * as vscode from 'vscode';
+import { isCancellationError } from './aiProvider';
+
+export interface PipelineRunOptions {
+    signal?: AbortSignal;
+    canRetry?: () => boolean; // E.g. false once a streamed reply has produced output
+}
+
+interface PipelineSettings {
+    maxRetries: number;
+    maxConcurrent: number;
+}
+
+const BASE_DELAY = 1000; // Milliseconds before the first retry
+const MAX_DELAY = 30000; // Longer waits fall back instead of blocking the user
+
+/**
+ * An AbortSignal linked to a cancellation token; dispose it when the request is done
+ */
+export interface LinkedCancellation extends vscode.Disposable {
+    signal?: AbortSignal;
+}
+
+/**
+ * Create an AbortSignal that aborts when either the token or the signal does
+ */
+export function linkCancellation(token?: vscode.CancellationToken, signal?: AbortSignal): LinkedCancellation {
+    if (!token) {
+        return { signal, dispose: () => undefined };
+    }
+
+    const controller = new AbortController();
+    if (token.isCancellationRequested || signal?.aborted) {
+        controller.abort();
+    }
+    const abort = () => controller.abort();
+    // Tokens can outlive many requests, so the listeners are removed again on dispose
+    const listener = token.onCancellationRequested(abort);
+    signal?.addEventListener('abort', abort, { once: true });
+    return {
+        signal: controller.signal,
+        dispose: () => {
+            listener.dispose();
+            signal?.removeEventListener('abort', abort);
+        }
+    };
+}
+
+export class RequestPipeline {
+    private active = 0;
+    private waiting: Array<() => void> = [];
+
+    /**
+     * Run a provider call with concurrency limiting and retries.
+     * `operation` is invoked once per attempt.
+     */
+    async run<T>(label: string, operation: () => Promise<T>, options: PipelineRunOptions = {}): Promise<T> {
+        const settings = this.settings();
+
+        for (let attempt = 0; ; attempt++) {
+            let delay = 0;
+            await this.acquire(settings.maxConcurrent, options.signal);
+            try {
+                return await operation();
+            } catch (error: any) {
+                if (options.signal?.aborted || isCancellationError(error)) {
+                    throw error;
+                }
+
+                const retryDelay = this.retryDelay(error, attempt);
+                const canRetry = attempt < settings.maxRetries && (options.canRetry?.() ?? true);
+                if (retryDelay === undefined || !canRetry) {
+                    throw error;
+                }
+
+                delay = retryDelay;
+                console.warn(`⏳ ${label} failed (${error.status || error.code || error.message}), retrying in ${delay}ms (${attempt + 1}/${settings.maxRetries})`);
+            } finally {
+                // Free the slot while backing off so other requests can proceed
+                this.release();
+            }
+            await this.sleep(delay, options.signal);
+        }
+    }
+
+    private settings(): PipelineSettings {
+        const config = vscode.workspace.getConfiguration('codeQuizExplainer');
+        return {
+            maxRetries: Math.max(0, config.get<number>('maxRetries', 3)),
+            maxConcurrent: Math.max(1, config.get<number>('maxConcurrentRequests', 2))
+        };
+    }
+
+    /**
+     * Milliseconds to wait before retrying, or undefined if the error is not transient
+     */
+    private retryDelay(error: any, attempt: number): number | undefined {
+        const status: number | undefined = error?.status;
+        const transient =
+            status === 408 ||
+            (status === 429 && error.code !== 'insufficient_quota') ||
+            (status !== undefined && status >= 500) ||
+            (status === undefined && this.isNetworkError(error));
+        if (!transient) {
+            return undefined;
+        }
+
+        const retryAfter = this.retryAfter(error);
+        if (retryAfter !== undefined) {
+            return retryAfter <= MAX_DELAY ? retryAfter : undefined;
+        }
+
+        // Exponential backoff with ±20% jitter so parallel requests spread out
+        const backoff = BASE_DELAY * Math.pow(2, attempt);
+        return Math.min(MAX_DELAY, Math.round(backoff * (0.8 + Math.random() * 0.4)));
+    }
+
+    private isNetworkError(error: any): boolean {
+        return ['timeout', 'ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ECONNABORTED', 'connection_refused'].includes(error?.code) ||
+            error?.name === 'APIConnectionError' ||
+            error?.name === 'APIConnectionTimeoutError';
+    }
+
+    /**
+     * Read `retry-after-ms` / `retry-after` (seconds or HTTP date) from the error's headers
+     */
+    private retryAfter(error: any): number | undefined {
+        const headers = error?.headers;
+        if (!headers) {
+            return undefined;
+        }
+
+        const read = (name: string): string | undefined =>
+            typeof headers.get === 'function' ? headers.get(name) ?? undefined : headers[name];
+
+        const milliseconds = Number(read('retry-after-ms'));
+        if (Number.isFinite(milliseconds) && milliseconds >= 0) {
+            return milliseconds;
+        }
+
+        const value = read('retry-after');
+        if (!value) {
+            return undefined;
+        }
+        const seconds = Number(value);
+        if (Number.isFinite(seconds)) {
+            return Math.max(0, seconds * 1000);
+        }
+        const date = Date.parse(value);
+        return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+    }
+
+    private async acquire(limit: number, signal?: AbortSignal): Promise<void> {
+        if (signal?.aborted) {
+            throw this.abortError();
+        }
+        if (this.active < limit) {
+            this.active++;
+            return;
+        }
+
+        await new Promise<void>((resolve, reject) => {
+            const onAbort = () => {
+                this.waiting = this.waiting.filter(entry => entry !== start);
+                reject(this.abortError());
+            };
+            const start = () => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            };
+            this.waiting.push(start);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    private release(): void {
+        // Hand the slot straight to the next waiting request, keeping `active` unchanged
+        const next = this.waiting.shift();
+        if (next) {
+            next();
+        } else {
+            this.active--;
+        }
+    }
+
+    private sleep(milliseconds: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            }, milliseconds);
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(this.abortError());
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    private abortError(): Error {
+        const error = new Error('Request cancelled');
+        error.name = 'AbortError';
+        return error;
+    }
+}
+
+/**
+ * Shared by every AIService so the concurrency limit applies across the extension
+ */
+export const requestPipeline = new RequestPipeline();
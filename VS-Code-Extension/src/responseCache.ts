@@ -0,0 +1,182 @@
+/**
+ * Response Cache Module
+ *
+ * Persists validated AI results in the extension's global storage so re-running a
+ * command on identical code does not call the provider again. Entries expire after
+ * `cacheTTLHours` and the least recently used ones are evicted once the cache grows
+ * past `cacheMaxEntries` or `cacheMaxSizeMB`.
+ */
+
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+
+interface CacheEntry {
+    value: unknown;
+    createdAt: number;
+    lastUsed: number;
+    size: number; // Serialized size in bytes
+}
+
+interface CacheSettings {
+    enabled: boolean;
+    ttl: number; // Milliseconds
+    maxEntries: number;
+    maxBytes: number;
+}
+
+const CACHE_FILE = 'response-cache.json';
+
+export class ResponseCache {
+    private entries?: Map<string, CacheEntry>;
+    private loading?: Promise<Map<string, CacheEntry>>;
+    private fileUri: vscode.Uri;
+
+    constructor(private storageUri: vscode.Uri) {
+        this.fileUri = vscode.Uri.joinPath(storageUri, CACHE_FILE);
+    }
+
+    /**
+     * Build a cache key from everything that affects the generated result
+     */
+    static key(parts: Record<string, unknown>): string {
+        const normalized = Object.keys(parts).sort().map(name => [name, parts[name] ?? null]);
+        return crypto.createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+    }
+
+    get enabled(): boolean {
+        return this.settings().enabled;
+    }
+
+    /**
+     * Return the cached value for a key, or undefined if missing or expired
+     */
+    async get<T>(key: string): Promise<T | undefined> {
+        const settings = this.settings();
+        if (!settings.enabled) {
+            return undefined;
+        }
+
+        const entries = await this.load();
+        const entry = entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+
+        if (Date.now() - entry.createdAt > settings.ttl) {
+            entries.delete(key);
+            await this.save();
+            return undefined;
+        }
+
+        entry.lastUsed = Date.now();
+        return entry.value as T;
+    }
+
+    /**
+     * Store a value, evicting expired and least recently used entries as needed
+     */
+    async set(key: string, value: unknown): Promise<void> {
+        const settings = this.settings();
+        if (!settings.enabled) {
+            return;
+        }
+
+        const size = Buffer.byteLength(JSON.stringify(value), 'utf8');
+        if (size > settings.maxBytes) {
+            return; // A single oversized result would evict everything else
+        }
+
+        const entries = await this.load();
+        const now = Date.now();
+        entries.set(key, { value, createdAt: now, lastUsed: now, size });
+        this.evict(entries, settings);
+        await this.save();
+    }
+
+    /**
+     * Remove a single entry, e.g. before regenerating a result
+     */
+    async delete(key: string): Promise<void> {
+        const entries = await this.load();
+        if (entries.delete(key)) {
+            await this.save();
+        }
+    }
+
+    /**
+     * Remove every cached result; returns how many entries were dropped
+     */
+    async clear(): Promise<number> {
+        const entries = await this.load();
+        const count = entries.size;
+        entries.clear();
+        await this.save();
+        return count;
+    }
+
+    private settings(): CacheSettings {
+        const config = vscode.workspace.getConfiguration('codeQuizExplainer');
+        return {
+            enabled: config.get<boolean>('cacheEnabled', true),
+            ttl: Math.max(0, config.get<number>('cacheTTLHours', 168)) * 60 * 60 * 1000,
+            maxEntries: Math.max(1, config.get<number>('cacheMaxEntries', 200)),
+            maxBytes: Math.max(0.1, config.get<number>('cacheMaxSizeMB', 10)) * 1024 * 1024
+        };
+    }
+
+    private evict(entries: Map<string, CacheEntry>, settings: CacheSettings): void {
+        const now = Date.now();
+        for (const [key, entry] of entries) {
+            if (now - entry.createdAt > settings.ttl) {
+                entries.delete(key);
+            }
+        }
+
+        let totalBytes = 0;
+        entries.forEach(entry => totalBytes += entry.size);
+
+        const byLastUse = [...entries.entries()].sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+        for (const [key, entry] of byLastUse) {
+            if (entries.size <= settings.maxEntries && totalBytes <= settings.maxBytes) {
+                break;
+            }
+            entries.delete(key);
+            totalBytes -= entry.size;
+        }
+    }
+
+    private async load(): Promise<Map<string, CacheEntry>> {
+        if (this.entries) {
+            return this.entries;
+        }
+        if (!this.loading) {
+            this.loading = this.readFile().then(entries => this.entries = entries);
+        }
+        return this.loading;
+    }
+
+    private async readFile(): Promise<Map<string, CacheEntry>> {
+        try {
+            const data = await vscode.workspace.fs.readFile(this.fileUri);
+            const parsed = JSON.parse(Buffer.from(data).toString('utf8'));
+            return new Map(Object.entries(parsed as Record<string, CacheEntry>));
+        } catch {
+            // Missing or corrupt cache files start out empty
+            return new Map();
+        }
+    }
+
+    private async save(): Promise<void> {
+        if (!this.entries) {
+            return;
+        }
+
+        try {
+            await vscode.workspace.fs.createDirectory(this.storageUri);
+            const data = JSON.stringify(Object.fromEntries(this.entries));
+            await vscode.workspace.fs.writeFile(this.fileUri, Buffer.from(data, 'utf8'));
+        } catch (error) {
+            console.warn('Failed to persist response cache:', error);
+        }
+    }
+}
@@ -0,0 +1,346 @@
+/**
+ * Response Validation Module
+ *
+ * Runtime validation of the JSON documents returned by AI providers. Each validator
+ * either returns a normalized value or a list of human-readable errors that AIService
+ * feeds back to the model when asking it to repair its reply.
+ */
+
+import { Quiz, QuizQuestion } from './quizGenerator';
+import { CodeExplanation, ExplanationSection, LineExplanation } from './codeExplainer';
+import { AICodeModificationResult, AIShortAnswerResult } from './aiService';
+
+export type ValidationResult<T> =
+    | { ok: true; value: T }
+    | { ok: false; errors: string[] };
+
+export type Validator<T> = (value: unknown) => ValidationResult<T>;
+
+const QUESTION_TYPES: QuizQuestion['type'][] = ['multiple-choice', 'open-ended', 'code-modification'];
+const LINE_CATEGORIES: LineExplanation['category'][] = ['declaration', 'assignment', 'function-call', 'control-flow', 'comment', 'other'];
+const IMPORTANCE_LEVELS: LineExplanation['importance'][] = ['high', 'medium', 'low'];
+const SECTION_KINDS: ExplanationSection['kind'][] = ['declaration', 'block'];
+const COMPLEXITY_LEVELS = ['simple', 'moderate', 'complex'];
+const VERDICTS = ['correct', 'partial', 'incorrect'];
+
+/**
+ * Validate a generated quiz; `totalQuestions` is recomputed from the questions
+ */
+export function validateQuiz(value: unknown): ValidationResult<Quiz> {
+    const errors: string[] = [];
+    if (!isObject(value)) {
+        return { ok: false, errors: ['Response must be a JSON object with "title" and "questions"'] };
+    }
+
+    const title = optionalString(value, 'title', errors) || 'Code Understanding Quiz';
+
+    if (!Array.isArray(value.questions) || value.questions.length === 0) {
+        errors.push('"questions" must be a non-empty array');
+        return { ok: false, errors };
+    }
+
+    const seenIds = new Set<string>();
+    const questions: QuizQuestion[] = [];
+
+    value.questions.forEach((raw: unknown, index: number) => {
+        const path = `questions[${index}]`;
+        if (!isObject(raw)) {
+            errors.push(`${path} must be an object`);
+            return;
+        }
+
+        const id = requireString(raw, 'id', path, errors);
+        if (id) {
+            if (seenIds.has(id)) {
+                errors.push(`${path}.id "${id}" is used by more than one question`);
+            }
+            seenIds.add(id);
+        }
+
+        const type = raw.type as QuizQuestion['type'];
+        if (!QUESTION_TYPES.includes(type)) {
+            errors.push(`${path}.type must be one of ${QUESTION_TYPES.map(t => `"${t}"`).join(', ')}`);
+        }
+
+        const question: QuizQuestion = {
+            id: id || '',
+            type,
+            question: requireString(raw, 'question', path, errors) || '',
+            correctAnswer: requireString(raw, 'correctAnswer', path, errors) || '',
+            explanation: requireString(raw, 'explanation', path, errors) || '',
+            codeSnippet: optionalString(raw, 'codeSnippet', errors, path)
+        };
+
+        if (type === 'multiple-choice') {
+            const options = raw.options;
+            if (!Array.isArray(options) || options.length < 2 || !options.every(option => typeof option === 'string' && option.trim())) {
+                errors.push(`${path}.options must be an array of at least two non-empty strings for multiple-choice questions`);
+            } else {
+                if (new Set(options).size !== options.length) {
+                    errors.push(`${path}.options must not contain duplicates`);
+                }
+                if (question.correctAnswer && !options.includes(question.correctAnswer)) {
+                    errors.push(`${path}.correctAnswer "${question.correctAnswer}" must exactly match one of ${path}.options`);
+                }
+                question.options = options;
+            }
+        }
+
+        if (type === 'code-modification') {
+            question.requirement = requireString(raw, 'requirement', path, errors);
+            question.startingCode = optionalString(raw, 'startingCode', errors, path);
+        }
+
+        questions.push(question);
+    });
+
+    if (errors.length > 0) {
+        return { ok: false, errors };
+    }
+    return { ok: true, value: { title, questions, totalQuestions: questions.length } };
+}
+
+/**
+ * Validate a generated code explanation
+ */
+export function validateExplanation(value: unknown): ValidationResult<CodeExplanation> {
+    const errors: string[] = [];
+    if (!isObject(value)) {
+        return { ok: false, errors: ['Response must be a JSON object with "overview", "lineByLineExplanations" and "summary"'] };
+    }
+
+    const title = optionalString(value, 'title', errors) || 'Code Explanation';
+    const overview = requireString(value, 'overview', '', errors) || '';
+
+    // Sections are optional; without them the explainer outlines the code itself
+    let sections: ExplanationSection[] | undefined;
+    if (value.sections !== undefined) {
+        sections = validateSections(value.sections, 'sections', undefined, errors);
+    }
+
+    const lineByLineExplanations: LineExplanation[] = [];
+    if (!Array.isArray(value.lineByLineExplanations) || value.lineByLineExplanations.length === 0) {
+        errors.push('"lineByLineExplanations" must be a non-empty array');
+    } else {
+        value.lineByLineExplanations.forEach((raw: unknown, index: number) => {
+            const path = `lineByLineExplanations[${index}]`;
+            const line = validateLineExplanation(raw, path, errors);
+            if (line) {
+                lineByLineExplanations.push(line);
+            }
+        });
+    }
+
+    const summary = value.summary;
+    if (!isObject(summary)) {
+        errors.push('"summary" must be an object');
+    } else {
+        if (typeof summary.totalLines !== 'number' || !Number.isFinite(summary.totalLines) || summary.totalLines < 0) {
+            errors.push('summary.totalLines must be a non-negative number');
+        }
+        for (const key of ['functions', 'variables', 'classes']) {
+            if (!isStringArray(summary[key])) {
+                errors.push(`summary.${key} must be an array of strings`);
+            }
+        }
+        requireString(summary, 'keyPurpose', 'summary', errors);
+        if (!COMPLEXITY_LEVELS.includes(summary.complexity)) {
+            errors.push(`summary.complexity must be one of ${COMPLEXITY_LEVELS.map(c => `"${c}"`).join(', ')}`);
+        }
+    }
+
+    if (errors.length > 0) {
+        return { ok: false, errors };
+    }
+    return {
+        ok: true,
+        value: {
+            title,
+            overview,
+            sections,
+            lineByLineExplanations,
+            summary: summary as CodeExplanation['summary']
+        }
+    };
+}
+
+/**
+ * Validate explanation sections and their nested sections, which must lie within
+ * the parent's lines; sections are returned sorted by start line
+ */
+function validateSections(raw: unknown, path: string, parent: ExplanationSection | undefined, errors: string[]): ExplanationSection[] {
+    if (!Array.isArray(raw)) {
+        errors.push(`${path} must be an array`);
+        return [];
+    }
+
+    const sections: ExplanationSection[] = [];
+    raw.forEach((entry: unknown, index: number) => {
+        const entryPath = `${path}[${index}]`;
+        if (!isObject(entry)) {
+            errors.push(`${entryPath} must be an object`);
+            return;
+        }
+
+        const before = errors.length;
+        if (!SECTION_KINDS.includes(entry.kind)) {
+            errors.push(`${entryPath}.kind must be one of ${SECTION_KINDS.map(k => `"${k}"`).join(', ')}`);
+        }
+        const title = requireString(entry, 'title', entryPath, errors);
+        const explanation = requireString(entry, 'explanation', entryPath, errors);
+        if (!Number.isInteger(entry.startLine) || entry.startLine < 1) {
+            errors.push(`${entryPath}.startLine must be a positive integer`);
+        } else if (!Number.isInteger(entry.endLine) || entry.endLine < entry.startLine) {
+            errors.push(`${entryPath}.endLine must be an integer no smaller than startLine`);
+        } else if (parent && (entry.startLine < parent.startLine || entry.endLine > parent.endLine)) {
+            errors.push(`${entryPath} (lines ${entry.startLine}-${entry.endLine}) must lie within its parent's lines ${parent.startLine}-${parent.endLine}`);
+        }
+        if (errors.length > before) {
+            return;
+        }
+
+        const section: ExplanationSection = {
+            kind: entry.kind,
+            title: title || '',
+            startLine: entry.startLine,
+            endLine: entry.endLine,
+            explanation: explanation || ''
+        };
+        if (entry.sections !== undefined) {
+            section.sections = validateSections(entry.sections, `${entryPath}.sections`, section, errors);
+        }
+        sections.push(section);
+    });
+
+    return sections.sort((a, b) => a.startLine - b.startLine);
+}
+
+/**
+ * Validate a single line-by-line entry; pushes errors and returns undefined when invalid
+ */
+export function validateLineExplanation(raw: unknown, path: string, errors: string[]): LineExplanation | undefined {
+    const before = errors.length;
+    if (!isObject(raw)) {
+        errors.push(`${path} must be an object`);
+        return undefined;
+    }
+
+    if (!Number.isInteger(raw.lineNumber) || raw.lineNumber < 1) {
+        errors.push(`${path}.lineNumber must be a positive integer`);
+    }
+    if (typeof raw.code !== 'string') {
+        errors.push(`${path}.code must be a string`);
+    }
+    const explanation = requireString(raw, 'explanation', path, errors);
+    if (!LINE_CATEGORIES.includes(raw.category)) {
+        errors.push(`${path}.category must be one of ${LINE_CATEGORIES.map(c => `"${c}"`).join(', ')}`);
+    }
+    if (!IMPORTANCE_LEVELS.includes(raw.importance)) {
+        errors.push(`${path}.importance must be one of ${IMPORTANCE_LEVELS.map(i => `"${i}"`).join(', ')}`);
+    }
+
+    if (errors.length > before) {
+        return undefined;
+    }
+    return {
+        lineNumber: raw.lineNumber,
+        code: raw.code,
+        explanation: explanation || '',
+        category: raw.category,
+        importance: raw.importance
+    };
+}
+
+/**
+ * Validate a short-answer grading result
+ */
+export function validateShortAnswerResult(value: unknown): ValidationResult<AIShortAnswerResult> {
+    const errors: string[] = [];
+    if (!isObject(value)) {
+        return { ok: false, errors: ['Response must be a JSON object with "score", "verdict" and "feedback"'] };
+    }
+
+    const score = validateScore(value, errors);
+    if (!VERDICTS.includes(value.verdict)) {
+        errors.push(`"verdict" must be one of ${VERDICTS.map(v => `"${v}"`).join(', ')}`);
+    }
+    const feedback = requireString(value, 'feedback', '', errors);
+
+    if (errors.length > 0) {
+        return { ok: false, errors };
+    }
+    return { ok: true, value: { score, verdict: value.verdict, feedback: feedback || '' } };
+}
+
+/**
+ * Validate a code-modification grading result; the verdict is derived from the score
+ */
+export function validateCodeModificationResult(value: unknown): ValidationResult<AICodeModificationResult> {
+    const errors: string[] = [];
+    if (!isObject(value)) {
+        return { ok: false, errors: ['Response must be a JSON object with "score", "verdict", "feedback", "issues" and "suggestions"'] };
+    }
+
+    const score = validateScore(value, errors);
+    const feedback = requireString(value, 'feedback', '', errors);
+    for (const key of ['issues', 'suggestions']) {
+        if (value[key] !== undefined && !isStringArray(value[key])) {
+            errors.push(`"${key}" must be an array of strings`);
+        }
+    }
+
+    if (errors.length > 0) {
+        return { ok: false, errors };
+    }
+    return {
+        ok: true,
+        value: {
+            score,
+            verdict: score >= 0.7 ? 'correct' : score >= 0.3 ? 'partial' : 'incorrect',
+            feedback: feedback || '',
+            issues: value.issues || [],
+            suggestions: value.suggestions || []
+        }
+    };
+}
+
+// Helpers
+
+function isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function requireString(target: Record<string, any>, key: string, path: string, errors: string[]): string | undefined {
+    const value = target[key];
+    const label = path ? `${path}.${key}` : `"${key}"`;
+    if (typeof value !== 'string' || !value.trim()) {
+        errors.push(`${label} must be a non-empty string`);
+        return undefined;
+    }
+    return value;
+}
+
+function optionalString(target: Record<string, any>, key: string, errors: string[], path = ''): string | undefined {
+    const value = target[key];
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (typeof value !== 'string') {
+        errors.push(`${path ? `${path}.${key}` : `"${key}"`} must be a string when present`);
+        return undefined;
+    }
+    return value;
+}
+
+function validateScore(target: Record<string, any>, errors: string[]): number {
+    const score = target.score;
+    if (typeof score !== 'number' || !Number.isFinite(score) || score < 0 || score > 1) {
+        errors.push('"score" must be a number between 0 and 1');
+        return 0;
+    }
+    return score;
+}
@@ -0,0 +1,203 @@
+/**
+ * Review Scheduler Module
+ *
+ * Brings missed quiz questions back with spaced repetition (SM-2). A question
+ * answered below the passing score joins the review queue; every later answer to
+ * it moves its next review further out the better it went, or back to tomorrow
+ * when it was missed again. Due questions are reviewed as an ordinary quiz, so
+ * they are shown and graded like any other.
+ */
+
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import { Quiz, QuizQuestion } from './quizGenerator';
+import { QuizAnswer, QuizAttempt, QuizHistory } from './quizHistory';
+
+export interface ReviewItem {
+    key: string;
+    question: QuizQuestion; // Its id is the key, so review quizzes never have duplicate ids
+    language?: string;
+    easiness: number; // SM-2 easiness factor, at least MIN_EASINESS
+    repetitions: number; // Passed reviews in a row
+    interval: number; // Days until the next review
+    due: number;
+    reviewedAt: number;
+}
+
+const QUEUE_FILE = 'review-queue.json';
+const MAX_ITEMS = 500; // The best-known questions (due furthest out) are dropped first
+const MAX_REVIEW_QUESTIONS = 10; // Per review session
+const PASS_SCORE = 0.7; // Same threshold the quiz panel counts as correct
+const INITIAL_EASINESS = 2.5;
+const MIN_EASINESS = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ReviewScheduler implements vscode.Disposable {
+    private items?: Map<string, ReviewItem>;
+    private loading?: Promise<Map<string, ReviewItem>>;
+    private fileUri: vscode.Uri;
+    private changeEmitter = new vscode.EventEmitter<void>();
+    private disposables: vscode.Disposable[] = [];
+
+    readonly onDidChange = this.changeEmitter.event;
+
+    constructor(private storageUri: vscode.Uri, quizHistory: QuizHistory) {
+        this.fileUri = vscode.Uri.joinPath(storageUri, QUEUE_FILE);
+        this.disposables.push(
+            this.changeEmitter,
+            quizHistory.onDidRecordAnswer(({ attempt, answer }) => {
+                this.record(attempt, answer).catch(error => console.warn('Failed to schedule review:', error));
+            })
+        );
+    }
+
+    /**
+     * The same question asked again, in any quiz, is the same review item
+     */
+    static key(question: QuizQuestion): string {
+        return crypto.createHash('sha256')
+            .update(JSON.stringify([question.type, question.question, question.codeSnippet, question.startingCode, question.requirement, question.correctAnswer]))
+            .digest('hex');
+    }
+
+    /**
+     * Queue a missed question, or reschedule one that is already queued
+     */
+    async record(attempt: QuizAttempt, answer: QuizAnswer): Promise<void> {
+        const question = attempt.quiz.questions.find(candidate => candidate.id === answer.questionId);
+        if (!question) {
+            return;
+        }
+
+        const items = await this.load();
+        const key = ReviewScheduler.key(question);
+        let item = items.get(key);
+        if (!item) {
+            if (answer.score >= PASS_SCORE) {
+                return;
+            }
+            item = {
+                key,
+                question: { ...question, id: key },
+                language: attempt.language,
+                easiness: INITIAL_EASINESS,
+                repetitions: 0,
+                interval: 0,
+                due: answer.answeredAt,
+                reviewedAt: answer.answeredAt
+            };
+            items.set(key, item);
+        }
+
+        schedule(item, answer.score, answer.answeredAt);
+        this.evict(items);
+        await this.save();
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * Questions due for review, most overdue first
+     */
+    async due(now = Date.now()): Promise<ReviewItem[]> {
+        const items = await this.load();
+        return [...items.values()].filter(item => item.due <= now).sort((a, b) => a.due - b.due);
+    }
+
+    /**
+     * A quiz of due questions in one language, led by the most overdue one, since
+     * answers are graded in the quiz's language. Undefined when nothing is due.
+     */
+    async reviewQuiz(now = Date.now()): Promise<Quiz | undefined> {
+        const due = await this.due(now);
+        if (due.length === 0) {
+            return undefined;
+        }
+
+        const language = due[0].language;
+        const questions = due
+            .filter(item => item.language === language)
+            .slice(0, MAX_REVIEW_QUESTIONS)
+            .map(item => item.question);
+        return {
+            title: `Review: ${questions.length} due ${language ? `${language} ` : ''}question${questions.length === 1 ? '' : 's'}`,
+            questions,
+            totalQuestions: questions.length,
+            language
+        };
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private evict(items: Map<string, ReviewItem>): void {
+        const byDue = [...items.values()].sort((a, b) => b.due - a.due);
+        for (const item of byDue.slice(0, Math.max(0, items.size - MAX_ITEMS))) {
+            items.delete(item.key);
+        }
+    }
+
+    private async load(): Promise<Map<string, ReviewItem>> {
+        if (this.items) {
+            return this.items;
+        }
+        if (!this.loading) {
+            this.loading = this.readFile().then(items => this.items = items);
+        }
+        return this.loading;
+    }
+
+    private async readFile(): Promise<Map<string, ReviewItem>> {
+        try {
+            const data = await vscode.workspace.fs.readFile(this.fileUri);
+            const parsed = JSON.parse(Buffer.from(data).toString('utf8')) as ReviewItem[];
+            return new Map(parsed.map(item => [item.key, item]));
+        } catch {
+            // Missing or corrupt queue files start out empty
+            return new Map();
+        }
+    }
+
+    private async save(): Promise<void> {
+        if (!this.items) {
+            return;
+        }
+
+        try {
+            await vscode.workspace.fs.createDirectory(this.storageUri);
+            const data = JSON.stringify([...this.items.values()]);
+            await vscode.workspace.fs.writeFile(this.fileUri, Buffer.from(data, 'utf8'));
+        } catch (error) {
+            console.warn('Failed to persist review queue:', error);
+        }
+    }
+}
+
+/**
+ * SM-2: the score (0–1) becomes a quality of 0–5; below 3 the question starts over
+ * tomorrow, otherwise the interval grows to 1, then 6 days, then by the easiness
+ * factor, which itself drops with every hard answer
+ */
+function schedule(item: ReviewItem, score: number, now: number): void {
+    const quality = toQuality(Math.min(1, Math.max(0, score)));
+    if (quality < 3) {
+        item.repetitions = 0;
+        item.interval = 1;
+    } else {
+        item.repetitions += 1;
+        item.interval = item.repetitions === 1 ? 1 : item.repetitions === 2 ? 6 : Math.round(item.interval * item.easiness);
+    }
+    item.easiness = Math.max(MIN_EASINESS, item.easiness + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+    item.due = now + item.interval * DAY_MS;
+    item.reviewedAt = now;
+}
+
+/**
+ * Scores below PASS_SCORE map to the failing qualities 0–2 and the rest to 3–5,
+ * so SM-2 passes exactly the answers the quiz panel counts as correct
+ */
+function toQuality(score: number): number {
+    return score < PASS_SCORE
+        ? Math.floor(score / PASS_SCORE * 3)
+        : 3 + Math.round((score - PASS_SCORE) / (1 - PASS_SCORE) * 2);
+}
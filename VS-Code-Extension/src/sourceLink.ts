@@ -0,0 +1,117 @@
+/**
+ * Source Link Module
+ *
+ * Connects an explanation panel to the document the explained code came from.
+ * Line numbers in explanations count from the start of the explained snippet, so
+ * the link keeps track of where the snippet starts in the document (also while
+ * lines are added or removed above it) to reveal and decorate the right lines, and
+ * reports cursor moves inside the snippet so the panel can follow along.
+ */
+
+import * as vscode from 'vscode';
+
+export interface CodeSource {
+    document: vscode.TextDocument;
+    startLine: number; // 0-based document line the snippet starts on
+}
+
+const CURSOR_DEBOUNCE_MS = 150;
+
+export class SourceLink implements vscode.Disposable {
+    private startLine: number;
+    private decoration: vscode.TextEditorDecorationType;
+    private disposables: vscode.Disposable[] = [];
+    private cursorTimer?: NodeJS.Timeout;
+    private lastCursorLine?: number;
+
+    /**
+     * `onCursorLine` receives the snippet line (1-based) the user moved the cursor to
+     */
+    constructor(private source: CodeSource, private lineCount: number, private onCursorLine: (lineNumber: number) => void) {
+        this.startLine = source.startLine;
+        this.decoration = vscode.window.createTextEditorDecorationType({
+            isWholeLine: true,
+            backgroundColor: new vscode.ThemeColor('editor.rangeHighlightBackground'),
+            overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.rangeHighlightForeground'),
+            overviewRulerLane: vscode.OverviewRulerLane.Full
+        });
+
+        this.disposables.push(
+            this.decoration,
+            vscode.workspace.onDidChangeTextDocument(event => this.trackEdits(event)),
+            vscode.window.onDidChangeTextEditorSelection(event => this.followCursor(event))
+        );
+    }
+
+    /**
+     * Show a snippet line (1-based) in its document, selected and decorated
+     */
+    async reveal(lineNumber: number): Promise<void> {
+        const document = this.source.document;
+        if (document.isClosed) {
+            vscode.window.showWarningMessage(`${vscode.workspace.asRelativePath(document.uri)} has been closed since it was explained.`);
+            return;
+        }
+
+        const line = this.startLine + lineNumber - 1;
+        if (lineNumber < 1 || lineNumber > this.lineCount || line >= document.lineCount) {
+            return;
+        }
+
+        const range = document.lineAt(line).range;
+        const visible = vscode.window.visibleTextEditors.find(editor => editor.document === document);
+        const editor = await vscode.window.showTextDocument(document, {
+            viewColumn: visible?.viewColumn ?? vscode.ViewColumn.One,
+            preserveFocus: true,
+            selection: new vscode.Selection(range.start, range.start)
+        });
+        editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+        editor.setDecorations(this.decoration, [range]);
+    }
+
+    dispose(): void {
+        if (this.cursorTimer) {
+            clearTimeout(this.cursorTimer);
+        }
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    /**
+     * Edits above the snippet, including ones ending on its first line (such as
+     * lines inserted there), move it; edits further inside it are not tracked
+     */
+    private trackEdits(event: vscode.TextDocumentChangeEvent): void {
+        if (event.document !== this.source.document) {
+            return;
+        }
+        for (const change of event.contentChanges) {
+            if (change.range.end.line <= this.startLine) {
+                const removed = change.range.end.line - change.range.start.line;
+                const added = change.text.split('\n').length - 1;
+                this.startLine += added - removed;
+            }
+        }
+    }
+
+    private followCursor(event: vscode.TextEditorSelectionChangeEvent): void {
+        // Only the user's own moves; selections made by reveal() would echo back
+        const byUser = event.kind === vscode.TextEditorSelectionChangeKind.Keyboard
+            || event.kind === vscode.TextEditorSelectionChangeKind.Mouse;
+        if (!byUser || event.textEditor.document !== this.source.document) {
+            return;
+        }
+
+        const lineNumber = event.selections[0].active.line - this.startLine + 1;
+        if (lineNumber < 1 || lineNumber > this.lineCount || lineNumber === this.lastCursorLine) {
+            return;
+        }
+
+        if (this.cursorTimer) {
+            clearTimeout(this.cursorTimer);
+        }
+        this.cursorTimer = setTimeout(() => {
+            this.lastCursorLine = lineNumber;
+            this.onCursorLine(lineNumber);
+        }, CURSOR_DEBOUNCE_MS);
+    }
+}
@@ -0,0 +1,62 @@
+/**
+ * Stream Reader Module
+ *
+ * Helpers for consuming streamed HTTP bodies: newline-delimited JSON (Ollama)
+ * and server-sent events (Anthropic, OpenAI-compatible servers).
+ */
+
+import { StringDecoder } from 'string_decoder';
+
+export interface ServerSentEvent {
+    event?: string;
+    data: string;
+}
+
+/**
+ * Yield each complete line of a byte stream. One decoder reads the whole stream,
+ * so characters split across chunks come out whole.
+ */
+export async function* readLines(stream: AsyncIterable<Buffer | string>): AsyncGenerator<string> {
+    const decoder = new StringDecoder('utf8');
+    let buffer = '';
+    for await (const chunk of stream) {
+        buffer += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+        let newline = buffer.indexOf('\n');
+        while (newline !== -1) {
+            yield buffer.slice(0, newline).replace(/\r$/, '');
+            buffer = buffer.slice(newline + 1);
+            newline = buffer.indexOf('\n');
+        }
+    }
+    buffer += decoder.end();
+    if (buffer) {
+        yield buffer;
+    }
+}
+
+/**
+ * Yield each server-sent event of a byte stream
+ */
+export async function* readServerSentEvents(stream: AsyncIterable<Buffer | string>): AsyncGenerator<ServerSentEvent> {
+    let event: string | undefined;
+    let data: string[] = [];
+
+    for await (const line of readLines(stream)) {
+        if (line === '') {
+            if (data.length > 0) {
+                yield { event, data: data.join('\n') };
+            }
+            event = undefined;
+            data = [];
+        } else if (line.startsWith('event:')) {
+            event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+            data.push(line.slice(5).replace(/^ /, ''));
+        }
+        // Comments (":") and other fields are ignored
+    }
+
+    if (data.length > 0) {
+        yield { event, data: data.join('\n') };
+    }
+}
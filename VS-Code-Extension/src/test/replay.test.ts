@@ -0,0 +1,85 @@
+/**
+ * Replay Tests
+ *
+ * Runs a quiz, an explanation and a grading flow through AIService with the
+ * `replay` provider and the fixtures in `src/test/fixtures`, so prompt, parsing
+ * and validation changes are checked without an AI provider. A request the
+ * fixtures do not cover fails its test instead of falling back.
+ *
+ * After changing a prompt, record the fixtures again: run the flows with
+ * `recordFixtures` on and `fixturesPath` pointing at `src/test/fixtures`.
+ */
+
+import { settings } from './vscodeStub';
+import * as assert from 'assert';
+import * as path from 'path';
+import { providerRegistry } from '../aiProvider';
+import { AIService } from '../aiService';
+import { registerBuiltInProviders } from '../providers';
+import { LineExplanation } from '../codeExplainer';
+
+const CODE = `function average(values) {
+    if (values.length === 0) {
+        return 0;
+    }
+    const total = values.reduce((sum, value) => sum + value, 0);
+    return total / values.length;
+}`;
+
+const tests: [string, (aiService: AIService) => Promise<void>][] = [
+    ['replays a quiz', async aiService => {
+        const quiz = await aiService.generateQuiz({ code: CODE, language: 'javascript', difficulty: 'intermediate', questionCount: 2 });
+        assert.strictEqual(quiz.title, 'Averaging an Array');
+        assert.deepStrictEqual(quiz.questions.map(question => question.type), ['multiple-choice', 'open-ended']);
+        assert.strictEqual(quiz.questions[0].correctAnswer, 'It returns 0');
+    }],
+
+    ['replays an explanation as a stream', async aiService => {
+        const fields: string[] = [];
+        const lines: LineExplanation[] = [];
+        const explanation = await aiService.streamExplanation({ code: CODE, language: 'javascript', detailLevel: 'basic' }, {
+            onField: key => fields.push(key),
+            onLine: line => lines.push(line)
+        });
+        assert.strictEqual(explanation.title, 'Average of a List of Numbers');
+        assert.deepStrictEqual(fields, ['title', 'overview']);
+        assert.deepStrictEqual(lines.map(line => line.lineNumber), explanation.lineByLineExplanations.map(line => line.lineNumber));
+    }],
+
+    ['replays the grading of a short answer', async aiService => {
+        const result = await aiService.evaluateShortAnswer({
+            question: 'Why does the function check for an empty array first?',
+            correctAnswer: 'Dividing by a length of 0 would return NaN',
+            userAnswer: 'So it does not divide by zero',
+            codeSnippet: CODE,
+            language: 'javascript'
+        });
+        assert.strictEqual(result.verdict, 'correct');
+        assert.strictEqual(result.score, 0.9);
+    }]
+];
+
+async function run(): Promise<void> {
+    settings.aiProvider = 'replay';
+    settings.fixturesPath = path.resolve(__dirname, '../../src/test/fixtures');
+    // Unused settings keep their defaults, which the fixtures were recorded with
+    registerBuiltInProviders(providerRegistry);
+    const aiService = new AIService();
+
+    let failed = 0;
+    for (const [name, test] of tests) {
+        try {
+            await test(aiService);
+            console.log(`✅ ${name}`);
+        } catch (error) {
+            failed++;
+            console.error(`❌ ${name}\n`, error);
+        }
+    }
+
+    aiService.dispose();
+    console.log(`${tests.length - failed}/${tests.length} passed`);
+    process.exitCode = failed ? 1 : 0;
+}
+
+run();
@@ -0,0 +1,79 @@
+/**
+ * Stream Reader Tests
+ *
+ * Streamed replies arrive in network chunks that do not respect line or
+ * character boundaries; the readers have to put both back together.
+ */
+
+import * as assert from 'assert';
+import { readLines, readServerSentEvents } from '../streamReader';
+
+async function* chunks(...parts: (Buffer | string)[]): AsyncGenerator<Buffer | string> {
+    for (const part of parts) {
+        yield part;
+    }
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of iterable) {
+        items.push(item);
+    }
+    return items;
+}
+
+/**
+ * `text` as bytes, split in two inside its first multibyte character
+ */
+function splitInsideCharacter(text: string): Buffer[] {
+    const bytes = Buffer.from(text, 'utf8');
+    const split = bytes.findIndex(byte => byte >= 0x80) + 1;
+    return [bytes.subarray(0, split), bytes.subarray(split)];
+}
+
+const tests: [string, () => Promise<void>][] = [
+    ['joins lines split across chunks', async () => {
+        const lines = await collect(readLines(chunks('first li', 'ne\r\nsecond\n', 'last')));
+        assert.deepStrictEqual(lines, ['first line', 'second', 'last']);
+    }],
+
+    ['decodes a character split across chunks', async () => {
+        const lines = await collect(readLines(chunks(...splitInsideCharacter('data: héllo ✓\n'))));
+        assert.deepStrictEqual(lines, ['data: héllo ✓']);
+    }],
+
+    ['decodes a character split at the end of the stream', async () => {
+        const lines = await collect(readLines(chunks(...splitInsideCharacter('✓'))));
+        assert.deepStrictEqual(lines, ['✓']);
+    }],
+
+    ['reads server-sent events with multibyte data', async () => {
+        const events = await collect(readServerSentEvents(chunks(
+            ...splitInsideCharacter('event: content_block_delta\ndata: {"text":"Größe"}\n\n'),
+            ': keep-alive\n',
+            'data: done\n'
+        )));
+        assert.deepStrictEqual(events, [
+            { event: 'content_block_delta', data: '{"text":"Größe"}' },
+            { event: undefined, data: 'done' }
+        ]);
+    }]
+];
+
+async function run(): Promise<void> {
+    let failed = 0;
+    for (const [name, test] of tests) {
+        try {
+            await test();
+            console.log(`✅ ${name}`);
+        } catch (error) {
+            failed++;
+            console.error(`❌ ${name}\n`, error);
+        }
+    }
+
+    console.log(`${tests.length - failed}/${tests.length} passed`);
+    process.exitCode = failed ? 1 : 0;
+}
+
+run();
@@ -0,0 +1,89 @@
+/**
+ * VS Code Stand-in
+ *
+ * Tests run in plain Node, where the `vscode` module does not exist. Importing this
+ * module first makes `require('vscode')` resolve to it: a small subset of the API,
+ * backed by the real file system and the settings in `settings`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const Module = require('module');
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request: string, ...rest: unknown[]) {
+    return request === 'vscode' ? __filename : resolveFilename.call(this, request, ...rest);
+};
+
+/**
+ * `codeQuizExplainer` settings, by key without the section
+ */
+export const settings: Record<string, unknown> = {};
+
+export class Disposable {
+    constructor(private callOnDispose: () => void = () => undefined) {}
+
+    dispose(): void {
+        this.callOnDispose();
+    }
+}
+
+export class EventEmitter<T> {
+    private listeners: ((event: T) => void)[] = [];
+
+    readonly event = (listener: (event: T) => void): Disposable => {
+        this.listeners.push(listener);
+        return new Disposable(() => this.listeners = this.listeners.filter(candidate => candidate !== listener));
+    };
+
+    fire(event: T): void {
+        this.listeners.forEach(listener => listener(event));
+    }
+
+    dispose(): void {
+        this.listeners = [];
+    }
+}
+
+export class Uri {
+    private constructor(readonly fsPath: string) {}
+
+    static file(fsPath: string): Uri {
+        return new Uri(fsPath);
+    }
+
+    static joinPath(base: Uri, ...segments: string[]): Uri {
+        return new Uri(path.join(base.fsPath, ...segments));
+    }
+
+    toString(): string {
+        return `file://${this.fsPath}`;
+    }
+}
+
+export class LanguageModelError extends Error {
+    readonly code = '';
+}
+
+export const workspace = {
+    workspaceFolders: undefined,
+    getConfiguration: () => ({
+        get: <T>(key: string, defaultValue?: T): T | undefined => key in settings ? settings[key] as T : defaultValue
+    }),
+    onDidChangeConfiguration: () => new Disposable(),
+    asRelativePath: (uri: Uri) => uri.fsPath,
+    fs: {
+        readFile: async (uri: Uri) => fs.promises.readFile(uri.fsPath),
+        writeFile: async (uri: Uri, content: Uint8Array) => fs.promises.writeFile(uri.fsPath, content),
+        createDirectory: async (uri: Uri) => {
+            await fs.promises.mkdir(uri.fsPath, { recursive: true });
+        }
+    }
+};
+
+// Messages are logged instead of shown, so a test can tell why a request fell back
+export const window = {
+    showInformationMessage: async (message: string) => console.log(`ℹ️ ${message}`),
+    showWarningMessage: async (message: string) => console.warn(`⚠️ ${message}`),
+    showErrorMessage: async (message: string) => console.error(`❌ ${message}`)
+};
@@ -0,0 +1,587 @@
+/**
+ * Tree-sitter Analyzer Module
+ *
+ * Analyzes Python, Java, Go, Rust, C, C++ and C# with tree-sitter, using the prebuilt
+ * WASM grammars from `tree-sitter-wasms`. Each grammar is described by the node types
+ * that declare functions, types, variables and imports, plus a few hooks for what the
+ * grammars spell differently; one walker turns any of them into a CodeAnalysis.
+ * Parsers load on first use and are reused afterwards.
+ */
+
+import Parser = require('web-tree-sitter');
+import { CodeAnalysis, CodeImport, CodeParameter, CodeSymbolKind, ControlFlowKind } from './codeAnalyzer';
+
+type SyntaxNode = Parser.SyntaxNode;
+
+interface Grammar {
+    wasm: string; // Grammar name in `tree-sitter-wasms/out/tree-sitter-<name>.wasm`
+    functions: string[]; // Methods when declared directly inside a type
+    types: Record<string, CodeSymbolKind | ((node: SyntaxNode) => CodeSymbolKind)>;
+    scopes?: string[]; // Name a scope without declaring a symbol, e.g. impl blocks and namespaces
+    variables: string[]; // Properties when declared directly inside a type
+    constants?: string[]; // Variable node types that always declare constants
+    imports: string[];
+    calls: Record<string, (node: SyntaxNode) => string | undefined>;
+    controlFlow: Record<string, ControlFlowKind>;
+    importsOf(node: SyntaxNode): Array<Omit<CodeImport, 'line'>>;
+    variableNames?(node: SyntaxNode): SyntaxNode[];
+    extendsOf?(node: SyntaxNode): string | undefined;
+    receiverOf?(node: SyntaxNode): string | undefined; // Type a function outside its type belongs to
+    isExported?(node: SyntaxNode, name: string): boolean;
+}
+
+interface Scope {
+    name: string;
+    isType: boolean;
+}
+
+const field = (name: string) => (node: SyntaxNode) => node.childForFieldName(name)?.text;
+const unquote = (text: string) => text.replace(/^["'<]|["'>]$/g, '');
+const publicModifier = (node: SyntaxNode) => hasKeyword(node, ['public']);
+
+const C_FAMILY_FLOW: Record<string, ControlFlowKind> = {
+    if_statement: 'if',
+    for_statement: 'for',
+    while_statement: 'while',
+    do_statement: 'do',
+    switch_statement: 'switch',
+    return_statement: 'return'
+};
+
+const C_GRAMMAR: Grammar = {
+    wasm: 'c',
+    functions: ['function_definition'],
+    types: { struct_specifier: 'struct', union_specifier: 'struct', enum_specifier: 'enum', type_definition: 'type' },
+    variables: ['declaration', 'field_declaration'],
+    imports: ['preproc_include'],
+    calls: { call_expression: field('function') },
+    controlFlow: C_FAMILY_FLOW,
+    importsOf: node => [{ module: unquote(node.childForFieldName('path')?.text ?? ''), names: [] }]
+};
+
+const GRAMMARS: Record<string, Grammar> = {
+    Python: {
+        wasm: 'python',
+        functions: ['function_definition'],
+        types: { class_definition: 'class' },
+        variables: ['assignment'],
+        imports: ['import_statement', 'import_from_statement'],
+        calls: { call: field('function') },
+        controlFlow: {
+            if_statement: 'if',
+            for_statement: 'for',
+            while_statement: 'while',
+            match_statement: 'switch',
+            try_statement: 'try',
+            return_statement: 'return',
+            raise_statement: 'throw'
+        },
+        importsOf: node => {
+            const names = fieldChildren(node, 'name').map(name => name.childForFieldName('alias')?.text ?? name.text);
+            if (node.type === 'import_statement') {
+                // `import os.path` binds `os`; `import numpy as np` binds `np`
+                return fieldChildren(node, 'name').map(name => ({
+                    module: name.childForFieldName('name')?.text ?? name.text,
+                    names: [name.childForFieldName('alias')?.text ?? name.text.split('.')[0]]
+                }));
+            }
+            const wildcard = node.namedChildren.some(child => child.type === 'wildcard_import');
+            return [{ module: node.childForFieldName('module_name')?.text ?? '', names: wildcard ? ['*'] : names }];
+        },
+        // Only names and tuples of names; `self.items = []` assigns an attribute rather than declaring a variable
+        variableNames: node => {
+            const left = node.childForFieldName('left');
+            if (node.parent?.type !== 'expression_statement' || !left) {
+                return [];
+            }
+            if (left.type === 'identifier') {
+                return [left];
+            }
+            return /pattern/.test(left.type) ? left.namedChildren.filter(name => name.type === 'identifier') : [];
+        },
+        extendsOf: node => node.childForFieldName('superclasses')?.namedChildren
+            .filter(base => base.type !== 'keyword_argument')
+            .map(base => base.text)
+            .join(', ') || undefined
+    },
+
+    Java: {
+        wasm: 'java',
+        functions: ['method_declaration', 'constructor_declaration'],
+        types: { class_declaration: 'class', record_declaration: 'class', interface_declaration: 'interface', enum_declaration: 'enum' },
+        variables: ['field_declaration', 'local_variable_declaration'],
+        imports: ['import_declaration'],
+        calls: {
+            method_invocation: node => [node.childForFieldName('object')?.text, node.childForFieldName('name')?.text].filter(Boolean).join('.'),
+            object_creation_expression: node => `new ${node.childForFieldName('type')?.text}`
+        },
+        controlFlow: {
+            ...C_FAMILY_FLOW,
+            enhanced_for_statement: 'for',
+            switch_expression: 'switch',
+            try_statement: 'try',
+            try_with_resources_statement: 'try',
+            throw_statement: 'throw'
+        },
+        importsOf: node => {
+            const path = node.text.replace(/^import\s+(static\s+)?|\s*;$/g, '').replace(/\s+/g, '');
+            return [{ module: path.replace(/\.[^.]+$/, ''), names: [path.split('.').pop()!] }];
+        },
+        extendsOf: node => node.childForFieldName('superclass')?.namedChildren[0]?.text
+            ?? node.namedChildren.find(child => child.type === 'extends_interfaces')?.namedChildren[0]?.namedChildren.map(type => type.text).join(', '),
+        isExported: publicModifier
+    },
+
+    Go: {
+        wasm: 'go',
+        functions: ['function_declaration', 'method_declaration', 'method_spec'],
+        types: {
+            type_spec: node => {
+                const type = node.childForFieldName('type')?.type;
+                return type === 'struct_type' ? 'struct' : type === 'interface_type' ? 'interface' : 'type';
+            }
+        },
+        variables: ['var_spec', 'const_spec', 'short_var_declaration'],
+        constants: ['const_spec'],
+        imports: ['import_spec'],
+        calls: { call_expression: field('function') },
+        controlFlow: {
+            if_statement: 'if',
+            for_statement: 'for',
+            expression_switch_statement: 'switch',
+            type_switch_statement: 'switch',
+            select_statement: 'switch',
+            return_statement: 'return'
+        },
+        importsOf: node => {
+            const module = unquote(node.childForFieldName('path')?.text ?? '');
+            return [{ module, names: [node.childForFieldName('name')?.text ?? module.split('/').pop()!] }];
+        },
+        variableNames: node => node.type === 'short_var_declaration'
+            ? identifiersIn(node.childForFieldName('left'))
+            : fieldChildren(node, 'name'),
+        receiverOf: node => node.childForFieldName('receiver')?.namedChildren[0]?.childForFieldName('type')?.text.replace(/^\*|\[.*$/g, ''),
+        // Go exports every name that starts with a capital letter
+        isExported: (_node, name) => /^[A-Z]/.test(name)
+    },
+
+    Rust: {
+        wasm: 'rust',
+        functions: ['function_item', 'function_signature_item'],
+        types: { struct_item: 'struct', union_item: 'struct', enum_item: 'enum', trait_item: 'interface', type_item: 'type' },
+        scopes: ['impl_item', 'mod_item'],
+        variables: ['let_declaration', 'const_item', 'static_item'],
+        constants: ['const_item'],
+        imports: ['use_declaration'],
+        calls: {
+            call_expression: field('function'),
+            macro_invocation: node => `${node.childForFieldName('macro')?.text}!`
+        },
+        controlFlow: {
+            if_expression: 'if',
+            for_expression: 'for',
+            while_expression: 'while',
+            loop_expression: 'while',
+            match_expression: 'switch',
+            return_expression: 'return'
+        },
+        importsOf: node => {
+            const argument = node.childForFieldName('argument');
+            if (!argument) {
+                return [];
+            }
+            if (argument.type === 'scoped_use_list') {
+                const names = argument.childForFieldName('list')?.namedChildren.map(item => item.childForFieldName('alias')?.text ?? item.text) ?? [];
+                return [{ module: argument.childForFieldName('path')?.text ?? '', names }];
+            }
+            if (argument.type === 'use_as_clause') {
+                return [{ module: argument.childForFieldName('path')?.text ?? '', names: [argument.childForFieldName('alias')?.text ?? ''] }];
+            }
+            if (argument.type === 'use_wildcard') {
+                return [{ module: argument.text.replace(/::\*$/, ''), names: ['*'] }];
+            }
+            return [{ module: argument.text, names: [argument.text.split('::').pop()!] }];
+        },
+        variableNames: node => node.type === 'let_declaration'
+            ? identifiersIn(node.childForFieldName('pattern')).filter(name => name.text !== '_')
+            : fieldChildren(node, 'name'),
+        isExported: node => node.namedChildren.some(child => child.type === 'visibility_modifier')
+    },
+
+    C: C_GRAMMAR,
+
+    'C++': {
+        ...C_GRAMMAR,
+        wasm: 'cpp',
+        types: { ...C_GRAMMAR.types, class_specifier: 'class' },
+        scopes: ['namespace_definition'],
+        imports: ['preproc_include', 'using_declaration'],
+        calls: {
+            ...C_GRAMMAR.calls,
+            new_expression: node => `new ${node.childForFieldName('type')?.text}`
+        },
+        controlFlow: {
+            ...C_FAMILY_FLOW,
+            for_range_loop: 'for',
+            try_statement: 'try',
+            throw_statement: 'throw'
+        },
+        importsOf: node => node.type === 'using_declaration'
+            ? [{ module: node.namedChildren[node.namedChildCount - 1]?.text ?? '', names: [] }]
+            : C_GRAMMAR.importsOf(node),
+        extendsOf: node => node.namedChildren.find(child => child.type === 'base_class_clause')?.namedChildren
+            .filter(base => base.type !== 'access_specifier')
+            .map(base => base.text)
+            .join(', '),
+        receiverOf: node => {
+            // `int Cart::add(...)` defines a method of Cart outside the class
+            const declarator = functionDeclarator(node)?.childForFieldName('declarator');
+            return declarator?.type === 'qualified_identifier' ? declarator.childForFieldName('scope')?.text : undefined;
+        }
+    },
+
+    'C#': {
+        wasm: 'c_sharp',
+        functions: ['method_declaration', 'constructor_declaration', 'local_function_statement'],
+        types: {
+            class_declaration: 'class',
+            record_declaration: 'class',
+            struct_declaration: 'struct',
+            interface_declaration: 'interface',
+            enum_declaration: 'enum'
+        },
+        scopes: ['namespace_declaration', 'file_scoped_namespace_declaration'],
+        variables: ['variable_declaration', 'property_declaration'],
+        imports: ['using_directive'],
+        calls: {
+            invocation_expression: field('function'),
+            object_creation_expression: node => `new ${node.childForFieldName('type')?.text}`
+        },
+        controlFlow: {
+            ...C_FAMILY_FLOW,
+            for_each_statement: 'for',
+            switch_expression: 'switch',
+            try_statement: 'try',
+            throw_statement: 'throw',
+            throw_expression: 'throw'
+        },
+        importsOf: node => {
+            const alias = node.namedChildren.find(child => child.type === 'name_equals')?.namedChildren[0]?.text;
+            const module = node.namedChildren[node.namedChildCount - 1]?.text ?? '';
+            return [{ module, names: alias ? [alias] : [] }];
+        },
+        variableNames: node => node.type === 'property_declaration'
+            ? fieldChildren(node, 'name')
+            : node.namedChildren
+                .filter(child => child.type === 'variable_declarator')
+                .map(declarator => declarator.childForFieldName('name') ?? declarator.namedChildren[0]),
+        extendsOf: node => node.childForFieldName('bases')?.namedChildren.map(base => base.text).join(', '),
+        isExported: publicModifier
+    }
+};
+
+let initialized: Promise<void> | undefined;
+const parsers = new Map<string, Promise<Parser>>();
+
+/**
+ * Whether tree-sitter can analyze `language`
+ */
+export function hasGrammar(language: string): boolean {
+    return language in GRAMMARS;
+}
+
+export async function analyzeWithTreeSitter(code: string, language: string): Promise<CodeAnalysis> {
+    const grammar = GRAMMARS[language];
+    const parser = await parserFor(grammar);
+    const tree = parser.parse(code);
+    try {
+        return new TreeWalker(grammar).analyze(tree.rootNode);
+    } finally {
+        tree.delete(); // Trees live in WASM memory, outside the garbage collector
+    }
+}
+
+function parserFor(grammar: Grammar): Promise<Parser> {
+    let parser = parsers.get(grammar.wasm);
+    if (!parser) {
+        parser = (async () => {
+            initialized ??= Parser.init();
+            await initialized;
+            const language = await Parser.Language.load(require.resolve(`tree-sitter-wasms/out/tree-sitter-${grammar.wasm}.wasm`));
+            const instance = new Parser();
+            instance.setLanguage(language);
+            return instance;
+        })();
+        // A failed load is retried on the next analysis
+        parser.catch(() => parsers.delete(grammar.wasm));
+        parsers.set(grammar.wasm, parser);
+    }
+    return parser;
+}
+
+/**
+ * Collects symbols, imports, calls and control flow in one pass over a syntax tree
+ */
+class TreeWalker {
+    private analysis: CodeAnalysis = { symbols: [], imports: [], calls: [], controlFlow: [] };
+    private scope: Scope[] = [];
+
+    constructor(private grammar: Grammar) {}
+
+    analyze(root: SyntaxNode): CodeAnalysis {
+        this.visit(root);
+        return this.analysis;
+    }
+
+    private visit(node: SyntaxNode): void {
+        const grammar = this.grammar;
+        const line = node.startPosition.row + 1;
+
+        const flow = grammar.controlFlow[node.type];
+        if (flow) {
+            this.analysis.controlFlow.push({ kind: flow, line, endLine: node.endPosition.row + 1, scope: this.scopeName() });
+        }
+
+        const callee = grammar.calls[node.type]?.(node);
+        if (callee) {
+            this.analysis.calls.push({ callee: callee.replace(/\s+/g, ' '), line, scope: this.scopeName() });
+        }
+
+        if (grammar.imports.includes(node.type)) {
+            for (const imported of grammar.importsOf(node).filter(imported => imported.module)) {
+                this.analysis.imports.push({ ...imported, line });
+            }
+            return;
+        }
+
+        if (grammar.functions.includes(node.type)) {
+            return this.visitFunction(node, node);
+        }
+
+        const kind = grammar.types[node.type];
+        // `struct point p;` only refers to a type; a declaration has a body
+        const declaresType = kind && (!node.type.endsWith('_specifier') || node.childForFieldName('body'));
+        if (declaresType) {
+            return this.visitType(node, typeof kind === 'function' ? kind(node) : kind);
+        }
+
+        if (grammar.scopes?.includes(node.type)) {
+            const name = (node.childForFieldName('name') ?? node.childForFieldName('type'))?.text;
+            return this.within({ name: name ?? '', isType: node.type === 'impl_item' }, () => this.visitChildren(node));
+        }
+
+        if (grammar.variables.includes(node.type)) {
+            // C and C++ declare function prototypes and methods with the same nodes as variables
+            const prototype = functionDeclarator(node);
+            return prototype ? this.visitFunction(node, prototype) : this.visitVariable(node);
+        }
+
+        this.visitChildren(node);
+    }
+
+    private visitChildren(node: SyntaxNode): void {
+        for (const child of node.namedChildren) {
+            this.visit(child);
+        }
+    }
+
+    private visitFunction(node: SyntaxNode, signature: SyntaxNode): void {
+        const declarator = functionDeclarator(node);
+        const nameNode = node.childForFieldName('name') ?? declaratorName(declarator?.childForFieldName('declarator') ?? null);
+        const name = nameNode?.text ?? 'anonymous';
+        const receiver = this.grammar.receiverOf?.(node);
+        if (receiver) {
+            this.scope.push({ name: receiver, isType: true });
+        }
+
+        const method = this.scope[this.scope.length - 1]?.isType ?? false;
+        const constructor = node.type === 'constructor_declaration' || (method && name === this.scope[this.scope.length - 1].name);
+        const parameters = fieldChildren(declarator ?? signature, 'parameters')[0]?.namedChildren
+            .flatMap(parameter => parametersOf(parameter))
+            // The receiver is implied when calling a method
+            .filter(parameter => !(method && /^(&?(mut )?self|cls)$/.test(parameter.name))) ?? [];
+
+        this.analysis.symbols.push({
+            kind: method ? 'method' : 'function',
+            name: constructor ? 'constructor' : name,
+            line: (nameNode ?? node).startPosition.row + 1,
+            endLine: node.endPosition.row + 1,
+            scope: this.scopeName(),
+            parameters,
+            returnType: constructor ? undefined : this.returnTypeOf(node, declarator),
+            async: hasKeyword(node, ['async']),
+            exported: this.grammar.isExported?.(node, name)
+        });
+
+        this.within({ name, isType: false }, () => this.visitChildren(node));
+        if (receiver) {
+            this.scope.pop();
+        }
+    }
+
+    private visitType(node: SyntaxNode, kind: CodeSymbolKind): void {
+        const nameNode = node.childForFieldName('name') ?? declaratorName(node.childForFieldName('declarator'));
+        const name = nameNode?.text ?? 'anonymous';
+        this.analysis.symbols.push({
+            kind,
+            name,
+            line: (nameNode ?? node).startPosition.row + 1,
+            endLine: node.endPosition.row + 1,
+            scope: this.scopeName(),
+            extends: this.grammar.extendsOf?.(node) || undefined,
+            exported: this.grammar.isExported?.(node, name)
+        });
+        this.within({ name, isType: true }, () => this.visitChildren(node));
+    }
+
+    private visitVariable(node: SyntaxNode): void {
+        const grammar = this.grammar;
+        const names = grammar.variableNames
+            ? grammar.variableNames(node)
+            : [...fieldChildren(node, 'name'), ...fieldChildren(node, 'declarator').map(declaratorName)]
+                .filter((name): name is SyntaxNode => !!name);
+        const inType = this.scope[this.scope.length - 1]?.isType ?? false;
+        // C# puts `const` on the statement around the variable declaration
+        const constant = grammar.constants?.includes(node.type)
+            || hasKeyword(node, ['const', 'final'])
+            || (!!node.parent && /declaration|statement/.test(node.parent.type) && hasKeyword(node.parent, ['const']));
+        const type = node.childForFieldName('type')?.text;
+
+        for (const name of names) {
+            this.analysis.symbols.push({
+                kind: inType ? 'property' : constant ? 'constant' : 'variable',
+                name: name.text,
+                line: name.startPosition.row + 1,
+                endLine: node.endPosition.row + 1,
+                scope: this.scopeName(),
+                type: type && !/^(var|auto|:=)$/.test(type) ? type : undefined,
+                exported: grammar.isExported?.(node.parent ?? node, name.text)
+            });
+        }
+        this.visitChildren(node);
+    }
+
+    /**
+     * The declared return type: `-> T` in Python and Rust, results in Go, the leading type elsewhere
+     */
+    private returnTypeOf(node: SyntaxNode, declarator: SyntaxNode | undefined): string | undefined {
+        const type = node.childForFieldName('return_type') ?? node.childForFieldName('result') ?? node.childForFieldName('type');
+        if (!type) {
+            return undefined;
+        }
+        // `char *name(...)`: the pointer belongs to the return type
+        let pointers = '';
+        for (let current = node.childForFieldName('declarator'); current && current !== declarator; current = current.childForFieldName('declarator')) {
+            pointers += current.type === 'pointer_declarator' ? '*' : current.type === 'reference_declarator' ? '&' : '';
+        }
+        return type.text + pointers;
+    }
+
+    private within(scope: Scope, visit: () => void): void {
+        if (!scope.name) {
+            return visit();
+        }
+        this.scope.push(scope);
+        try {
+            visit();
+        } finally {
+            this.scope.pop();
+        }
+    }
+
+    private scopeName(): string | undefined {
+        return this.scope.length > 0 ? this.scope.map(scope => scope.name).join('.') : undefined;
+    }
+}
+
+function parametersOf(parameter: SyntaxNode): CodeParameter[] {
+    if (parameter.type === 'comment') {
+        return [];
+    }
+    const type = parameter.childForFieldName('type')?.text;
+    const optional = !!(parameter.childForFieldName('value') ?? parameter.childForFieldName('default_value'))
+        || parameter.namedChildren.some(child => child.type === 'equals_value_clause');
+
+    // Splats (`*args`, `...rest`), `self` and bare Python names are their own text
+    if (/splat|self_parameter|^identifier$/.test(parameter.type)) {
+        return [{ name: parameter.text, optional: false }];
+    }
+    if (parameter.type === 'spread_parameter') {
+        const declarator = parameter.namedChildren.find(child => child.type === 'variable_declarator');
+        return [{ name: `...${declarator?.childForFieldName('name')?.text ?? ''}`, type: parameter.namedChildren[0]?.text, optional: false }];
+    }
+
+    // Go declares several names per type (`a, b int`)
+    const names = fieldChildren(parameter, 'name');
+    if (names.length > 0) {
+        return names.map(name => ({ name: name.text, type, optional }));
+    }
+    // Python's typed parameters keep the name in an unnamed child
+    const name = parameter.childForFieldName('pattern')
+        ?? declaratorName(parameter.childForFieldName('declarator'))
+        ?? parameter.namedChildren.find(child => /identifier|splat/.test(child.type));
+    return name ? [{ name: name.text, type, optional }] : [];
+}
+
+/**
+ * The function declarator of a C-style declaration, looking through pointers and references
+ */
+function functionDeclarator(node: SyntaxNode): SyntaxNode | undefined {
+    for (let current = node.childForFieldName('declarator'); current; current = current.childForFieldName('declarator')) {
+        if (current.type === 'function_declarator') {
+            return current;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * The declared name inside a C-style declarator such as `*items[10] = {0}`
+ */
+function declaratorName(node: SyntaxNode | null): SyntaxNode | undefined {
+    let current = node;
+    while (current) {
+        if (current.type === 'qualified_identifier') {
+            return current.childForFieldName('name') ?? current;
+        }
+        if (/identifier$|destructor_name|operator_name/.test(current.type)) {
+            return current;
+        }
+        current = current.childForFieldName('declarator') ?? current.childForFieldName('name')
+            ?? current.namedChildren.find(child => /identifier$|declarator$/.test(child.type)) ?? null;
+    }
+    return undefined;
+}
+
+function identifiersIn(node: SyntaxNode | null): SyntaxNode[] {
+    if (!node) {
+        return [];
+    }
+    return node.type === 'identifier' ? [node] : node.namedChildren.flatMap(identifiersIn);
+}
+
+/**
+ * All children stored under a field; `childForFieldName` only returns the first
+ */
+function fieldChildren(node: SyntaxNode, name: string): SyntaxNode[] {
+    const children: SyntaxNode[] = [];
+    const cursor = node.walk();
+    if (cursor.gotoFirstChild()) {
+        do {
+            if (cursor.currentFieldName() === name) {
+                children.push(cursor.currentNode());
+            }
+        } while (cursor.gotoNextSibling());
+    }
+    cursor.delete();
+    return children;
+}
+
+/**
+ * Whether a declaration carries one of the keywords, directly or in its modifier list
+ */
+function hasKeyword(node: SyntaxNode, keywords: string[]): boolean {
+    return node.children
+        .flatMap(child => /modifier|type_qualifier/.test(child.type) ? [child, ...child.children] : [child])
+        .some(child => keywords.includes(child.text));
+}
@@ -0,0 +1,306 @@
+/**
+ * TypeScript Analyzer Module
+ *
+ * Analyzes JavaScript and TypeScript with the TypeScript compiler API. The snippet is
+ * parsed on its own, without the standard library or imported modules, so types the
+ * code does not declare are inferred only where the snippet itself determines them.
+ */
+
+import * as ts from 'typescript';
+import { CodeAnalysis, CodeParameter, CodeSymbol, CodeSymbolKind, ControlFlowKind } from './codeAnalyzer';
+
+const CONTROL_FLOW: Partial<Record<ts.SyntaxKind, ControlFlowKind>> = {
+    [ts.SyntaxKind.IfStatement]: 'if',
+    [ts.SyntaxKind.ForStatement]: 'for',
+    [ts.SyntaxKind.ForInStatement]: 'for',
+    [ts.SyntaxKind.ForOfStatement]: 'for',
+    [ts.SyntaxKind.WhileStatement]: 'while',
+    [ts.SyntaxKind.DoStatement]: 'do',
+    [ts.SyntaxKind.SwitchStatement]: 'switch',
+    [ts.SyntaxKind.TryStatement]: 'try',
+    [ts.SyntaxKind.ReturnStatement]: 'return',
+    [ts.SyntaxKind.ThrowStatement]: 'throw'
+};
+
+type FunctionLike = ts.FunctionLikeDeclaration;
+
+export function analyzeTypeScript(code: string, typescript: boolean, tsx = false): CodeAnalysis {
+    // JSX is allowed in JavaScript, but in .ts files `<T>value` is a type assertion
+    const scriptKind = typescript
+        ? (tsx ? ts.ScriptKind.TSX : ts.ScriptKind.TS)
+        : ts.ScriptKind.JSX;
+    const fileName = `snippet.${typescript ? (scriptKind === ts.ScriptKind.TSX ? 'tsx' : 'ts') : 'jsx'}`;
+
+    const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true, scriptKind);
+    const checker = createChecker(sourceFile);
+    const analysis: CodeAnalysis = { symbols: [], imports: [], calls: [], controlFlow: [] };
+
+    const lineOf = (node: ts.Node) => sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+    const endLineOf = (node: ts.Node) => sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1;
+    const scopeName = (scope: string[]) => scope.length > 0 ? scope.join('.') : undefined;
+
+    /**
+     * The annotated type, else the checker's inference unless it gave up (`any`)
+     */
+    const typeOf = (node: ts.Node, annotation?: ts.TypeNode): string | undefined => {
+        if (annotation) {
+            return annotation.getText(sourceFile);
+        }
+        try {
+            // `const label = 'hi'` is a `string` to the reader, not the literal type `"hi"`
+            return readableType(checker.typeToString(checker.getBaseTypeOfLiteralType(checker.getTypeAtLocation(node))));
+        } catch {
+            return undefined;
+        }
+    };
+
+    const returnTypeOf = (node: FunctionLike): string | undefined => {
+        if (node.type) {
+            return node.type.getText(sourceFile);
+        }
+        try {
+            const signature = checker.getSignatureFromDeclaration(node);
+            return signature
+                ? readableType(checker.typeToString(checker.getBaseTypeOfLiteralType(checker.getReturnTypeOfSignature(signature))))
+                : undefined;
+        } catch {
+            return undefined;
+        }
+    };
+
+    const parametersOf = (node: FunctionLike): CodeParameter[] => node.parameters.map(parameter => ({
+        name: (parameter.dotDotDotToken ? '...' : '') + parameter.name.getText(sourceFile),
+        type: typeOf(parameter, parameter.type),
+        optional: !!parameter.questionToken || !!parameter.initializer
+    }));
+
+    const addFunction = (node: FunctionLike, name: string, kind: CodeSymbolKind, scope: string[], nameNode: ts.Node, exported = false) => {
+        analysis.symbols.push({
+            kind,
+            name,
+            line: lineOf(nameNode),
+            endLine: endLineOf(node),
+            scope: scopeName(scope),
+            parameters: parametersOf(node),
+            returnType: ts.isConstructorDeclaration(node) ? undefined : returnTypeOf(node),
+            async: hasModifier(node, ts.SyntaxKind.AsyncKeyword),
+            exported: exported || hasModifier(node, ts.SyntaxKind.ExportKeyword)
+        });
+    };
+
+    const addSymbol = (node: ts.Node, symbol: Omit<CodeSymbol, 'line' | 'endLine'>, nameNode: ts.Node = node) => {
+        analysis.symbols.push({ ...symbol, line: lineOf(nameNode), endLine: endLineOf(node) });
+    };
+
+    const visitChildren = (node: ts.Node, scope: string[]) => ts.forEachChild(node, child => visit(child, scope));
+
+    const visit = (node: ts.Node, scope: string[]): void => {
+        const controlFlow = CONTROL_FLOW[node.kind];
+        if (controlFlow) {
+            analysis.controlFlow.push({ kind: controlFlow, line: lineOf(node), endLine: endLineOf(node), scope: scopeName(scope) });
+        }
+
+        if (ts.isFunctionDeclaration(node)) {
+            const name = node.name?.text ?? 'default';
+            addFunction(node, name, 'function', scope, node.name ?? node);
+            return visitChildren(node, [...scope, name]);
+        }
+
+        if (ts.isMethodDeclaration(node) || ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node)) {
+            const name = node.name.getText(sourceFile);
+            addFunction(node, name, 'method', scope, node.name);
+            return visitChildren(node, [...scope, name]);
+        }
+
+        if (ts.isConstructorDeclaration(node)) {
+            addFunction(node, 'constructor', 'method', scope, node);
+            return visitChildren(node, [...scope, 'constructor']);
+        }
+
+        if (ts.isClassDeclaration(node) || ts.isClassExpression(node)) {
+            const name = node.name?.text ?? 'default';
+            const base = node.heritageClauses?.find(clause => clause.token === ts.SyntaxKind.ExtendsKeyword);
+            addSymbol(node, {
+                kind: 'class',
+                name,
+                scope: scopeName(scope),
+                extends: base?.types.map(type => type.getText(sourceFile)).join(', '),
+                exported: hasModifier(node, ts.SyntaxKind.ExportKeyword)
+            }, node.name ?? node);
+            return visitChildren(node, [...scope, name]);
+        }
+
+        if (ts.isInterfaceDeclaration(node)) {
+            addSymbol(node, {
+                kind: 'interface',
+                name: node.name.text,
+                scope: scopeName(scope),
+                extends: node.heritageClauses?.flatMap(clause => clause.types.map(type => type.getText(sourceFile))).join(', '),
+                exported: hasModifier(node, ts.SyntaxKind.ExportKeyword)
+            }, node.name);
+            return; // Nothing inside an interface runs
+        }
+
+        if (ts.isTypeAliasDeclaration(node) || ts.isEnumDeclaration(node)) {
+            addSymbol(node, {
+                kind: ts.isEnumDeclaration(node) ? 'enum' : 'type',
+                name: node.name.text,
+                scope: scopeName(scope),
+                exported: hasModifier(node, ts.SyntaxKind.ExportKeyword)
+            }, node.name);
+            return;
+        }
+
+        if (ts.isPropertyDeclaration(node)) {
+            const name = node.name.getText(sourceFile);
+            const initializer = node.initializer;
+            if (initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) {
+                // `handle = () => { ... }` behaves like a method bound to the instance
+                addFunction(initializer, name, 'method', scope, node.name);
+                return visitChildren(initializer, [...scope, name]);
+            }
+            addSymbol(node, { kind: 'property', name, scope: scopeName(scope), type: typeOf(node, node.type) }, node.name);
+            return visitChildren(node, scope);
+        }
+
+        if (ts.isPropertyAssignment(node)) {
+            const name = node.name.getText(sourceFile);
+            const initializer = node.initializer;
+            if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) {
+                // `{ handle: () => { ... } }` is a method of the object literal
+                addFunction(initializer, name, 'method', scope, node.name);
+                return visitChildren(initializer, [...scope, name]);
+            }
+            return visit(initializer, ts.isObjectLiteralExpression(initializer) ? [...scope, name] : scope);
+        }
+
+        if (ts.isVariableDeclaration(node)) {
+            return visitVariable(node, scope);
+        }
+
+        if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+            analysis.imports.push({
+                module: node.moduleSpecifier.text,
+                names: importedNames(node.importClause),
+                line: lineOf(node)
+            });
+            return;
+        }
+
+        if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+            const callee = node.expression.getText(sourceFile).replace(/\s+/g, '');
+            analysis.calls.push({
+                callee: ts.isNewExpression(node) ? `new ${callee}` : callee,
+                line: lineOf(node),
+                scope: scopeName(scope)
+            });
+        }
+
+        visitChildren(node, scope);
+    };
+
+    const visitVariable = (node: ts.VariableDeclaration, scope: string[]): void => {
+        const statement = node.parent.parent;
+        const exported = ts.isVariableStatement(statement) && hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+        const constant = (node.parent.flags & ts.NodeFlags.Const) !== 0;
+        const initializer = node.initializer;
+
+        if (ts.isIdentifier(node.name) && initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) {
+            const name = node.name.text;
+            addFunction(initializer, name, 'function', scope, node.name, exported);
+            return visitChildren(initializer, [...scope, name]);
+        }
+
+        // `const x = require('module')` is an import in CommonJS code
+        if (initializer && ts.isCallExpression(initializer) && initializer.expression.getText(sourceFile) === 'require'
+            && initializer.arguments.length === 1 && ts.isStringLiteral(initializer.arguments[0])) {
+            analysis.imports.push({
+                module: initializer.arguments[0].text,
+                names: bindingNames(node.name),
+                line: lineOf(node)
+            });
+            return;
+        }
+
+        for (const name of bindingIdentifiers(node.name)) {
+            addSymbol(node, {
+                kind: constant ? 'constant' : 'variable',
+                name: name.text,
+                scope: scopeName(scope),
+                type: typeOf(name, ts.isIdentifier(node.name) ? node.type : undefined),
+                exported
+            }, name);
+        }
+        if (initializer) {
+            // Members of `const api = { ... }` are scoped to `api`
+            visit(initializer, ts.isIdentifier(node.name) && ts.isObjectLiteralExpression(initializer) ? [...scope, node.name.text] : scope);
+        }
+    };
+
+    visit(sourceFile, []);
+    return analysis;
+}
+
+/**
+ * A type checker over just this file; without the standard library nothing else
+ * needs to be read from disk
+ */
+function createChecker(sourceFile: ts.SourceFile): ts.TypeChecker {
+    const host: ts.CompilerHost = {
+        getSourceFile: fileName => fileName === sourceFile.fileName ? sourceFile : undefined,
+        getDefaultLibFileName: () => 'lib.d.ts',
+        writeFile: () => undefined,
+        getCurrentDirectory: () => '/',
+        getCanonicalFileName: fileName => fileName,
+        useCaseSensitiveFileNames: () => true,
+        getNewLine: () => '\n',
+        fileExists: fileName => fileName === sourceFile.fileName,
+        readFile: () => undefined
+    };
+    const program = ts.createProgram([sourceFile.fileName], {
+        noLib: true,
+        noResolve: true,
+        allowJs: true,
+        strict: true,
+        jsx: ts.JsxEmit.Preserve,
+        target: ts.ScriptTarget.Latest
+    }, host);
+    return program.getTypeChecker();
+}
+
+/**
+ * Drop inferences that carry no information; without the standard library, `any`
+ * stands for every type the snippet does not declare itself
+ */
+function readableType(type: string): string | undefined {
+    return type === 'any' || type === 'unknown' || /\bany\b/.test(type) ? undefined : type;
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    return ts.canHaveModifiers(node) && !!ts.getModifiers(node)?.some(modifier => modifier.kind === kind);
+}
+
+function importedNames(clause: ts.ImportClause | undefined): string[] {
+    if (!clause) {
+        return []; // Side-effect import
+    }
+    const names = clause.name ? [clause.name.text] : [];
+    const bindings = clause.namedBindings;
+    if (bindings && ts.isNamespaceImport(bindings)) {
+        names.push(bindings.name.text);
+    } else if (bindings) {
+        names.push(...bindings.elements.map(element => element.name.text));
+    }
+    return names;
+}
+
+function bindingIdentifiers(name: ts.BindingName): ts.Identifier[] {
+    if (ts.isIdentifier(name)) {
+        return [name];
+    }
+    return name.elements.flatMap(element => ts.isOmittedExpression(element) ? [] : bindingIdentifiers(element.name));
+}
+
+function bindingNames(name: ts.BindingName): string[] {
+    return bindingIdentifiers(name).map(identifier => identifier.text);
+}
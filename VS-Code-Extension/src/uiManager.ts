@@ -7,21 +7,46 @@
 
 import * as vscode from 'vscode';
 import { Quiz, QuizQuestion } from './quizGenerator';
-import { CodeExplanation, CodeExplainer } from './codeExplainer';
+import { CodeExplanation, CodeExplainer, ExplanationSection, LineExplanation } from './codeExplainer';
+import { isCancellationError } from './aiProvider';
+import { AIService } from './aiService';
+import { DetectedLanguage, describeDetection, guessLanguage } from './languageDetector';
+import { UsageLedger, UsageSummary, UsageTotals } from './usageLedger';
+import { ClarifyHistory } from './clarifyHistory';
+import { CodeSource, SourceLink } from './sourceLink';
+import { attemptScore, QuizAnswer, QuizAttempt, QuizHistory, QuizOrigin } from './quizHistory';
+
+/**
+ * What an explanation panel shows, for answering follow-up questions about it
+ */
+interface ExplanationSession {
+    code: string;
+    language: DetectedLanguage;
+    explanation?: CodeExplanation; // Undefined while the explanation is being generated
+    source?: SourceLink; // Set when the code came from an open document
+}
 
 export class UIManager {
     private context: vscode.ExtensionContext;
+    private aiService: AIService;
     private codeExplainer?: CodeExplainer;
+    private clarifyHistory?: ClarifyHistory;
+    private quizHistory?: QuizHistory;
 
-    constructor(context: vscode.ExtensionContext, codeExplainer?: CodeExplainer) {
+    constructor(context: vscode.ExtensionContext, aiService: AIService, codeExplainer?: CodeExplainer, clarifyHistory?: ClarifyHistory, quizHistory?: QuizHistory) {
         this.context = context;
+        this.aiService = aiService;
         this.codeExplainer = codeExplainer;
+        this.clarifyHistory = clarifyHistory;
+        this.quizHistory = quizHistory;
     }
 
     /**
-     * Show a quiz in a modern, animated WebView panel
+     * Show a quiz in a modern, animated WebView panel.
+     * When `regenerate` is given the panel offers a Regenerate button that replaces the quiz.
+     * Answers are recorded in the quiz history as an attempt on the code `origin` describes.
      */
-    async showQuizPanel(quiz: Quiz, originalCode: string): Promise<void> {
+    async showQuizPanel(quiz: Quiz, originalCode: string, regenerate?: () => Promise<Quiz>, origin?: QuizOrigin): Promise<void> {
         console.log('🚀 UIManager.showQuizPanel called with quiz:', quiz.title, 'Questions:', quiz.totalQuestions);
         
         // Safety check
@@ -43,17 +68,35 @@ export class UIManager {
         );
 
         console.log('🚀 Generating HTML for quiz...');
-        panel.webview.html = this.generateModernQuizHTML(quiz, originalCode);
+        panel.webview.html = this.generateModernQuizHTML(quiz, originalCode, !!regenerate);
         console.log('🚀 Quiz HTML generated and assigned to panel');
 
+        const quizOrigin = origin ?? { codeHash: QuizHistory.key(originalCode) };
+        let attempt = QuizHistory.start(quiz, originalCode, quizOrigin);
+
         panel.webview.onDidReceiveMessage(
-            message => {
+            async message => {
                 switch (message.command) {
+                    case 'regenerateQuiz':
+                        if (!regenerate) {
+                            break;
+                        }
+                        try {
+                            const fresh = await regenerate();
+                            if (fresh.questions?.length) {
+                                quiz = fresh;
+                                attempt = QuizHistory.start(quiz, originalCode, quizOrigin);
+                                panel.webview.html = this.generateModernQuizHTML(quiz, originalCode, true);
+                            }
+                        } catch (error) {
+                            vscode.window.showErrorMessage(`Error generating quiz: ${error}`);
+                        }
+                        break;
                     case 'submitAnswer':
-                        this.handleQuizAnswer(panel, message.questionId, message.answer, quiz);
+                        this.handleQuizAnswer(panel, message.questionId, message.answer, attempt);
                         break;
                     case 'submitCodeModification':
-                        this.handleCodeModificationAnswer(panel, message.questionId, message.userCode, message.originalCode, message.requirement, quiz);
+                        this.handleCodeModificationAnswer(panel, message.questionId, message.userCode, message.originalCode, message.requirement, attempt);
                         break;
                     case 'nextQuestion':
                         this.showNextQuestion(panel, message.questionIndex, quiz);
@@ -96,27 +139,276 @@ export class UIManager {
         panel.webview.html = this.generateModernExplanationHTML(explanation, originalCode);
         console.log('🚀 Explanation HTML generated and assigned to panel');
 
+        this.registerExplanationMessageHandlers(panel, { code: originalCode, language: guessLanguage(originalCode), explanation });
+    }
+
+    /**
+     * Open the explanation panel right away and fill it in while the AI reply streams.
+     * Resolves with the final explanation, or undefined if the user cancelled.
+     * The panel's Regenerate button re-runs the request without the response cache.
+     * With a `source`, clicking a line reveals it in that document and moving the
+     * cursor there scrolls the panel to the matching line.
+     */
+    async streamExplanationPanel(code: string, language: DetectedLanguage, source?: CodeSource): Promise<CodeExplanation | undefined> {
+        const codeExplainer = this.codeExplainer;
+        if (!codeExplainer) {
+            throw new Error('Code explainer is not available');
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'codeExplanation',
+            '📚 Code Explanation',
+            vscode.ViewColumn.Two,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [this.context.extensionUri]
+            }
+        );
+        // Closing the panel or pressing Cancel aborts the in-flight request
+        let controller: AbortController | undefined;
+        let disposed = false;
+        const post = (message: any) => {
+            if (!disposed) {
+                panel.webview.postMessage(message);
+            }
+        };
+
+        const session: ExplanationSession = {
+            code,
+            language,
+            source: source && new SourceLink(source, code.split('\n').length, lineNumber => post({ command: 'revealLine', lineNumber }))
+        };
+        this.registerExplanationMessageHandlers(panel, session);
+
+        const run = async (refresh: boolean): Promise<CodeExplanation | undefined> => {
+            controller?.abort();
+            const current = controller = new AbortController();
+            panel.webview.html = this.generateModernExplanationHTML(undefined, code);
+
+            try {
+                const explanation = await codeExplainer.explainCode(code, language, {
+                    signal: current.signal,
+                    refresh,
+                    stream: {
+                        onField: (key, value) => post({ command: key === 'title' ? 'explanationTitle' : 'explanationOverview', text: value }),
+                        onLine: line => post({ command: 'explanationLine', html: this.renderLineExplanationCard(line, 0) })
+                    }
+                });
+
+                console.log('🚀 Explanation streamed:', explanation.title, 'Lines:', explanation.lineByLineExplanations.length);
+                session.explanation = explanation;
+                // The final result may differ from the streamed parts (repairs, fallback), so re-render it
+                post({
+                    command: 'explanationComplete',
+                    title: explanation.title,
+                    overview: explanation.overview,
+                    html: this.renderExplanationBody(explanation)
+                });
+                return explanation;
+            } catch (error) {
+                if (current.signal.aborted || isCancellationError(error)) {
+                    console.log('🚀 Explanation cancelled');
+                    post({ command: 'explanationCancelled' });
+                    return undefined;
+                }
+                post({ command: 'explanationError', error: error instanceof Error ? error.message : String(error) });
+                throw error;
+            }
+        };
+
+        const listener = panel.webview.onDidReceiveMessage(message => {
+            switch (message.command) {
+                case 'cancelExplanation':
+                    controller?.abort();
+                    break;
+                case 'regenerate':
+                    run(true).catch(error => vscode.window.showErrorMessage(`Error generating explanation: ${error}`));
+                    break;
+            }
+        });
+        panel.onDidDispose(() => {
+            disposed = true;
+            controller?.abort();
+            listener.dispose();
+            session.source?.dispose();
+        });
+
+        return run(false);
+    }
+
+    /**
+     * Handle messages posted by the explanation webview
+     */
+    private registerExplanationMessageHandlers(panel: vscode.WebviewPanel, session: ExplanationSession): void {
         panel.webview.onDidReceiveMessage(
             message => {
                 switch (message.command) {
                     case 'highlightLine':
-                        console.log('Highlight line:', message.lineNumber);
+                        session.source?.reveal(Number(message.lineNumber))
+                            .catch(error => console.warn('Failed to reveal line:', error));
                         break;
                     case 'toggleSection':
                         // Handle section toggling
                         break;
+                    case 'clarifyReady':
+                        // The webview (re)loaded; restore the conversation about this code
+                        this.postClarifyHistory(panel, session);
+                        break;
+                    case 'clarify':
+                        this.handleClarify(panel, session, String(message.question || ''));
+                        break;
+                    case 'clarifyClear':
+                        this.clarifyHistory?.clear(session.code)
+                            .then(() => this.postClarifyHistory(panel, session));
+                        break;
+                }
+            },
+            undefined,
+            this.context.subscriptions
+        );
+    }
+
+    private async postClarifyHistory(panel: vscode.WebviewPanel, session: ExplanationSession): Promise<void> {
+        const turns = await this.clarifyHistory?.get(session.code) ?? [];
+        panel.webview.postMessage({ command: 'clarifyHistory', turns });
+    }
+
+    /**
+     * Answer a follow-up question with the explanation and the earlier questions
+     * about the same code as context, and add the exchange to the history
+     */
+    private async handleClarify(panel: vscode.WebviewPanel, session: ExplanationSession, question: string): Promise<void> {
+        if (!question.trim()) {
+            return;
+        }
+        // Tells the webview the question arrived, so it waits for the answer however long it takes
+        panel.webview.postMessage({ command: 'clarifyAck' });
+
+        try {
+            const config = vscode.workspace.getConfiguration('codeQuizExplainer');
+            const answer = await this.aiService.clarifyExplanation({
+                code: session.code,
+                question,
+                language: session.language.name,
+                detailLevel: config.get('explanationDetail', 'detailed') as 'basic' | 'detailed' | 'expert',
+                explanation: session.explanation,
+                history: await this.clarifyHistory?.get(session.code)
+            });
+            await this.clarifyHistory?.append(session.code, { question, answer, askedAt: Date.now() });
+            panel.webview.postMessage({ command: 'clarifyResult', answer });
+        } catch (error) {
+            console.error('Clarification failed:', error);
+            panel.webview.postMessage({ command: 'clarifyResult', error: error instanceof Error ? error.message : String(error) });
+        }
+    }
+
+    /**
+     * Show AI usage per day and per task with estimated cost
+     */
+    async showUsagePanel(ledger: UsageLedger): Promise<void> {
+        const panel = vscode.window.createWebviewPanel(
+            'codeQuizUsage',
+            '💸 AI Usage',
+            vscode.ViewColumn.Active,
+            {
+                enableScripts: true,
+                localResourceRoots: [this.context.extensionUri]
+            }
+        );
+
+        const render = async () => {
+            panel.webview.html = this.generateUsageHTML(await ledger.summarize());
+        };
+
+        panel.webview.onDidReceiveMessage(
+            async message => {
+                switch (message.command) {
+                    case 'refreshUsage':
+                        await render();
+                        break;
+                    case 'editPrices':
+                        vscode.commands.executeCommand('workbench.action.openSettings', 'codeQuizExplainer.usagePrices');
+                        break;
+                    case 'clearUsage': {
+                        const choice = await vscode.window.showWarningMessage('Delete the recorded AI usage history?', { modal: true }, 'Delete');
+                        if (choice === 'Delete') {
+                            await ledger.clear();
+                            await render();
+                        }
+                        break;
+                    }
+                }
+            },
+            undefined,
+            this.context.subscriptions
+        );
+
+        await render();
+    }
+
+    /**
+     * Show past quiz attempts with their answers and scores; any quiz can be taken again
+     */
+    async showQuizHistoryPanel(): Promise<void> {
+        const history = this.quizHistory;
+        if (!history) {
+            throw new Error('Quiz history is not available');
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'codeQuizHistory',
+            '📜 Quiz History',
+            vscode.ViewColumn.Active,
+            {
+                enableScripts: true,
+                localResourceRoots: [this.context.extensionUri]
+            }
+        );
+
+        const render = async () => {
+            panel.webview.html = this.generateQuizHistoryHTML(await history.list());
+        };
+
+        panel.webview.onDidReceiveMessage(
+            async message => {
+                switch (message.command) {
+                    case 'refreshHistory':
+                        await render();
+                        break;
+                    case 'retakeQuiz': {
+                        const attempt = await history.get(String(message.id));
+                        if (attempt) {
+                            await this.showQuizPanel(attempt.quiz, attempt.code ?? '', undefined, { codeHash: attempt.codeHash, file: attempt.file, review: attempt.review });
+                        }
+                        break;
+                    }
+                    case 'deleteAttempt':
+                        await history.delete(String(message.id));
+                        await render();
+                        break;
+                    case 'clearHistory': {
+                        const choice = await vscode.window.showWarningMessage('Delete all recorded quiz attempts?', { modal: true }, 'Delete');
+                        if (choice === 'Delete') {
+                            await history.clear();
+                            await render();
+                        }
+                        break;
+                    }
                 }
             },
             undefined,
             this.context.subscriptions
         );
+
+        await render();
     }
 
     /**
      * Show a poke modal when user tries to paste code
      * Returns the user's choice: 'quiz', 'explain-quiz', 'paste', or 'cancel'
      */
-    async showPokeModal(clipboardText: string): Promise<'quiz' | 'explain-quiz' | 'paste' | 'cancel'> {
+    async showPokeModal(clipboardText: string, language: DetectedLanguage): Promise<'quiz' | 'explain-quiz' | 'paste' | 'cancel'> {
         return new Promise((resolve) => {
             let resolved = false; // Flag to prevent double resolution
             
@@ -134,7 +426,7 @@ export class UIManager {
                 }
             );
 
-            panel.webview.html = this.generatePokeModalHTML(clipboardText);
+            panel.webview.html = this.generatePokeModalHTML(clipboardText, language);
 
             // Handle disposal - only resolve if not already resolved
             panel.onDidDispose(() => {
@@ -178,7 +470,7 @@ export class UIManager {
     /**
      * Generate modern, animated HTML for quiz panel
      */
-    private generateModernQuizHTML(quiz: Quiz, originalCode: string): string {
+    private generateModernQuizHTML(quiz: Quiz, originalCode: string, regenerable = false): string {
         const firstQuestion = quiz.questions[0];
         
         return `
@@ -212,6 +504,10 @@ export class UIManager {
                         <div class="quiz-icon">🧠</div>
                         <h1 class="quiz-title">${quiz.title}</h1>
                         <p class="quiz-subtitle">Test your coding knowledge with style</p>
+                        ${regenerable ? `
+                        <button class="modern-btn secondary-btn" id="regenerateBtn" onclick="regenerateQuiz()">
+                            <span class="btn-text">🔄 Regenerate</span>
+                        </button>` : ''}
                     </div>
                     
                     <!-- Advanced Progress Bar -->
@@ -383,9 +679,11 @@ export class UIManager {
     }
 
     /**
-     * Generate modern HTML for explanation panel
+     * Generate modern HTML for explanation panel; without an explanation the panel
+     * starts in its streaming state and is filled in by messages
      */
-    private generateModernExplanationHTML(explanation: CodeExplanation, originalCode: string): string {
+    private generateModernExplanationHTML(explanation: CodeExplanation | undefined, originalCode: string): string {
+        const streaming = !explanation;
         const selectedLineCount = originalCode
             ? originalCode.replace(/\n$/, '').split('\n').length
             : 0;
@@ -416,9 +714,16 @@ export class UIManager {
                 <div class="explanation-header glass-card">
                     <div class="header-icon">📚</div>
                     <div class="header-content">
-                        <h1>${explanation.title}</h1>
-                        <p class="header-subtitle">Deep dive into your code</p>
+                        <h1 id="explanationTitle">${explanation ? explanation.title : 'Code Explanation'}</h1>
+                        <p class="header-subtitle" id="headerSubtitle">${streaming ? 'Analyzing your code…' : 'Deep dive into your code'}</p>
                     </div>
+                    ${streaming ? `
+                    <button class="modern-btn secondary-btn" id="cancelBtn" onclick="cancelExplanation()">
+                        <span class="btn-text">Cancel</span>
+                    </button>
+                    <button class="modern-btn secondary-btn" id="regenerateBtn" onclick="regenerateExplanation()" style="display: none;">
+                        <span class="btn-text">🔄 Regenerate</span>
+                    </button>` : ''}
                 </div>
 
                 <!-- Overview Card -->
@@ -427,7 +732,7 @@ export class UIManager {
                         <span class="card-icon">🎯</span>
                         <h2>Overview</h2>
                     </div>
-                    <p class="overview-text">${explanation.overview}</p>
+                    <p class="overview-text${streaming ? ' streaming-placeholder' : ''}" id="overviewText">${explanation ? explanation.overview : 'Waiting for the first results…'}</p>
                 </div>
 
 
@@ -442,26 +747,28 @@ export class UIManager {
                         </h2>
                     </div>
 
-                    <div class="line-explanations">
-                        ${explanation.lineByLineExplanations.map((lineExp, index) => `
-                            <div class="line-explanation-card glass-card importance-${lineExp.importance} category-${lineExp.category}" 
-                                 onclick="highlightLine(${lineExp.lineNumber})"
-                                 style="--delay: ${index * 0.05}s">
-                                <div class="line-header">
-                                    <div class="line-number-badge">${lineExp.lineNumber}</div>
-                                    <div class="category-badge ${lineExp.category}">${lineExp.category}</div>
-                                    <div class="importance-indicator ${lineExp.importance}"></div>
-                                </div>
-                                <div class="line-code-container">
-                                    <pre class="line-code"><code>${this.escapeHtml(lineExp.code)}</code></pre>
-                                </div>
-                                <div class="line-explanation-text">
-                                    ${lineExp.explanation}
-                                </div>
-                                <div class="hover-effect"></div>
+                    <div class="line-explanations" id="lineExplanations">
+                        ${explanation ? this.renderExplanationBody(explanation) : ''}
+                    </div>
+                </div>
+
+                <!-- Follow-up Questions -->
+                <div class="clarify-card glass-card">
+                    <div class="card-header">
+                        <span class="card-icon">💬</span>
+                        <h2>Ask a Follow-up Question</h2>
+                        <button class="filter-tab clarify-clear" id="clarifyClearBtn" onclick="clearClarifyHistory()" style="display: none;">Clear conversation</button>
+                    </div>
+                    <div class="clarify-input-row">
+                        <textarea class="clarify-input" id="clarifyInput" rows="2" placeholder="What would you like explained further? Earlier questions about this code are remembered."></textarea>
+                        <button class="modern-btn primary-btn" id="clarifyBtn">
+                            <span class="btn-text">Ask</span>
+                            <div class="btn-loading">
+                                <div class="loading-spinner"></div>
                             </div>
-                        `).join('')}
+                        </button>
                     </div>
+                    <div class="clarify-results" id="clarifyResults"></div>
                 </div>
 
                 
@@ -474,6 +781,414 @@ export class UIManager {
         </html>`;
     }
 
+    /**
+     * Render the line explanations, grouped into collapsible sections when the
+     * explanation has them. Sections start collapsed so their summaries read as an
+     * outline of the code; lines outside every section are shown between them.
+     */
+    private renderExplanationBody(explanation: CodeExplanation): string {
+        const lines = [...explanation.lineByLineExplanations].sort((a, b) => a.lineNumber - b.lineNumber);
+        if (!explanation.sections?.length) {
+            return lines.map((lineExp, index) => this.renderLineExplanationCard(lineExp, index)).join('');
+        }
+
+        let index = 0;
+        const renderRange = (sections: ExplanationSection[], rangeLines: LineExplanation[]): string => {
+            let html = '';
+            let next = 0;
+            const cardsBefore = (line: number) => {
+                while (next < rangeLines.length && rangeLines[next].lineNumber < line) {
+                    html += this.renderLineExplanationCard(rangeLines[next++], index++);
+                }
+            };
+            for (const section of sections) {
+                cardsBefore(section.startLine);
+                const inside: LineExplanation[] = [];
+                while (next < rangeLines.length && rangeLines[next].lineNumber <= section.endLine) {
+                    inside.push(rangeLines[next++]);
+                }
+                html += `
+            <details class="explanation-section section-${section.kind}">
+                <summary class="explanation-section-header">
+                    <span class="section-kind-badge ${section.kind}">${section.kind}</span>
+                    <span class="explanation-section-title">${this.escapeHtml(section.title)}</span>
+                    <span class="section-line-range">${section.startLine === section.endLine ? `Line ${section.startLine}` : `Lines ${section.startLine}–${section.endLine}`}</span>
+                    <span class="explanation-section-text">${this.escapeHtml(section.explanation)}</span>
+                </summary>
+                <div class="explanation-section-body">
+                    ${renderRange(section.sections ?? [], inside)}
+                </div>
+            </details>`;
+            }
+            cardsBefore(Infinity);
+            return html;
+        };
+
+        return `
+            <div class="section-toolbar">
+                <button class="filter-tab" onclick="toggleSections(true)">Expand all</button>
+                <button class="filter-tab" onclick="toggleSections(false)">Collapse all</button>
+            </div>
+            ${renderRange(explanation.sections, lines)}`;
+    }
+
+    /**
+     * Render one line-by-line card; also posted to the webview while streaming
+     */
+    private renderLineExplanationCard(lineExp: LineExplanation, index: number): string {
+        return `
+            <div class="line-explanation-card glass-card importance-${lineExp.importance} category-${lineExp.category}" 
+                 data-line="${lineExp.lineNumber}"
+                 onclick="highlightLine(${lineExp.lineNumber})"
+                 style="--delay: ${index * 0.05}s">
+                <div class="line-header">
+                    <div class="line-number-badge">${lineExp.lineNumber}</div>
+                    <div class="category-badge ${lineExp.category}">${lineExp.category}</div>
+                    <div class="importance-indicator ${lineExp.importance}"></div>
+                </div>
+                <div class="line-code-container">
+                    <pre class="line-code"><code>${this.escapeHtml(lineExp.code)}</code></pre>
+                </div>
+                <div class="line-explanation-text">
+                    ${lineExp.explanation}
+                </div>
+                <div class="hover-effect"></div>
+            </div>
+        `;
+    }
+
+    private generateUsageHTML(summary: UsageSummary): string {
+        const number = (value: number) => value.toLocaleString('en-US');
+        const cost = (totals: UsageTotals) =>
+            `$${totals.cost.toFixed(totals.cost < 1 ? 4 : 2)}${totals.unpriced ? ` <span class="unpriced" title="${totals.unpriced} call(s) with a model missing from the price table">*</span>` : ''}`;
+        const row = (label: string, totals: UsageTotals) => {
+            const providerCalls = totals.calls - totals.cacheHits - totals.fallbacks;
+            return `
+                <tr>
+                    <td>${this.escapeHtml(label)}</td>
+                    <td>${number(totals.calls)}</td>
+                    <td>${number(totals.promptTokens)}</td>
+                    <td>${number(totals.completionTokens)}</td>
+                    <td>${cost(totals)}</td>
+                    <td>${number(totals.cacheHits)}</td>
+                    <td>${number(totals.fallbacks)}</td>
+                    <td>${number(totals.errors)}</td>
+                    <td>${providerCalls > 0 ? `${(totals.latency / providerCalls / 1000).toFixed(1)}s` : '–'}</td>
+                </tr>`;
+        };
+        const table = (title: string, rows: string) => `
+            <div class="usage-card glass-card">
+                <h2>${title}</h2>
+                ${rows ? `
+                <table class="usage-table">
+                    <thead>
+                        <tr>
+                            <th></th><th>Calls</th><th>Prompt tokens</th><th>Completion tokens</th><th>Est. cost</th>
+                            <th>Cache hits</th><th>Fallbacks</th><th>Errors</th><th>Avg. latency</th>
+                        </tr>
+                    </thead>
+                    <tbody>${rows}</tbody>
+                </table>` : '<p class="usage-empty">No AI calls recorded yet.</p>'}
+            </div>`;
+
+        const monthTokens = summary.month.promptTokens + summary.month.completionTokens;
+        const cap = summary.monthlyTokenCap;
+        const capPercent = cap > 0 ? Math.min(100, monthTokens / cap * 100) : 0;
+
+        return `
+        <!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>AI Usage</title>
+            <style>
+                ${this.getModernStyles()}
+                ${this.getUsageStyles()}
+            </style>
+        </head>
+        <body>
+            <div class="usage-container">
+                <div class="usage-header glass-card">
+                    <div class="header-icon">💸</div>
+                    <div class="header-content">
+                        <h1>AI Usage</h1>
+                        <p class="header-subtitle">This month: ${number(monthTokens)} tokens, ${cost(summary.month)} estimated</p>
+                    </div>
+                    <button class="modern-btn secondary-btn" onclick="post('refreshUsage')"><span class="btn-text">🔄 Refresh</span></button>
+                    <button class="modern-btn secondary-btn" onclick="post('editPrices')"><span class="btn-text">✏️ Edit Prices</span></button>
+                    <button class="modern-btn secondary-btn" onclick="post('clearUsage')"><span class="btn-text">🗑️ Clear</span></button>
+                </div>
+
+                ${cap > 0 ? `
+                <div class="usage-card glass-card">
+                    <h2>Monthly token cap</h2>
+                    <div class="cap-bar"><div class="cap-fill${capPercent >= 100 ? ' cap-reached' : ''}" style="width: ${capPercent}%"></div></div>
+                    <p>${number(monthTokens)} of ${number(cap)} tokens${capPercent >= 100 ? ' – cap reached, using fallback generation' : ''}</p>
+                </div>` : ''}
+
+                ${table('By task', summary.tasks.map(totals => row(totals.task, totals)).join(''))}
+                ${table('By day (last 90 days)', summary.days.map(totals => row(totals.day, totals)).join(''))}
+
+                <p class="usage-note">Costs are estimates from the <code>usagePrices</code> table (USD per million tokens).
+                Token counts are estimated for providers that do not report usage. * Includes calls to models missing from the price table.</p>
+            </div>
+
+            <script>
+                const vscode = acquireVsCodeApi();
+                function post(command) {
+                    vscode.postMessage({ command });
+                }
+            </script>
+        </body>
+        </html>`;
+    }
+
+    private generateQuizHistoryHTML(attempts: QuizAttempt[]): string {
+        const percent = (score: number) => Math.round(score * 100);
+        // Same thresholds as the quiz panel: 70% counts as correct, 30% as partial
+        const grade = (score: number) => score >= 0.7 ? 'good' : score >= 0.3 ? 'partial' : 'low';
+        const average = attempts.length
+            ? attempts.reduce((sum, attempt) => sum + attemptScore(attempt), 0) / attempts.length
+            : 0;
+
+        const renderAttempt = (attempt: QuizAttempt) => {
+            const score = attemptScore(attempt);
+            const questions = attempt.quiz.questions.map(question => {
+                const answer = attempt.answers.find(candidate => candidate.questionId === question.id);
+                return `
+                    <li>
+                        <div class="history-question">${this.escapeHtml(question.question)}</div>
+                        ${answer ? `
+                        <div class="history-answer">
+                            <span class="history-score ${grade(answer.score)}">${percent(answer.score)}%</span>
+                            <pre>${this.escapeHtml(answer.answer)}</pre>
+                        </div>
+                        ${answer.feedback ? `<div class="history-feedback">${this.escapeHtml(answer.feedback)}</div>` : ''}` : `
+                        <div class="history-answer unanswered">Not answered</div>`}
+                        ${question.type !== 'code-modification' ? `<div class="history-expected">Expected: ${this.escapeHtml(question.correctAnswer)}</div>` : ''}
+                    </li>`;
+            }).join('');
+
+            return `
+                <details class="history-attempt glass-card">
+                    <summary>
+                        <span class="history-score ${grade(score)}">${percent(score)}%</span>
+                        <span class="history-title">${this.escapeHtml(attempt.quiz.title)}</span>
+                        <span class="history-meta">
+                            ${this.escapeHtml(attempt.review ? 'Review session' : attempt.file ?? 'Pasted code')}${attempt.language ? ` · ${this.escapeHtml(attempt.language)}` : ''}
+                            · ${attempt.answers.length}/${attempt.quiz.questions.length} answered
+                            · ${new Date(attempt.updatedAt).toLocaleString()}
+                        </span>
+                    </summary>
+                    <ol class="history-questions">${questions}</ol>
+                    <div class="history-actions">
+                        <button class="modern-btn primary-btn" onclick="post('retakeQuiz', '${attempt.id}')"><span class="btn-text">🔁 Retake</span></button>
+                        <button class="modern-btn secondary-btn" onclick="post('deleteAttempt', '${attempt.id}')"><span class="btn-text">🗑️ Delete</span></button>
+                    </div>
+                </details>`;
+        };
+
+        return `
+        <!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Quiz History</title>
+            <style>
+                ${this.getModernStyles()}
+                ${this.getUsageStyles()}
+                ${this.getQuizHistoryStyles()}
+            </style>
+        </head>
+        <body>
+            <div class="usage-container">
+                <div class="usage-header glass-card">
+                    <div class="header-icon">📜</div>
+                    <div class="header-content">
+                        <h1>Quiz History</h1>
+                        <p class="header-subtitle">${attempts.length} attempt${attempts.length === 1 ? '' : 's'}${attempts.length ? `, ${percent(average)}% on average` : ''}</p>
+                    </div>
+                    <button class="modern-btn secondary-btn" onclick="post('refreshHistory')"><span class="btn-text">🔄 Refresh</span></button>
+                    <button class="modern-btn secondary-btn" onclick="post('clearHistory')"><span class="btn-text">🗑️ Clear</span></button>
+                </div>
+
+                ${attempts.length
+                    ? attempts.map(renderAttempt).join('')
+                    : '<div class="usage-card glass-card"><p class="usage-empty">No quizzes taken yet. Answers are recorded as you take a quiz.</p></div>'}
+            </div>
+
+            <script>
+                const vscode = acquireVsCodeApi();
+                function post(command, id) {
+                    vscode.postMessage({ command, id });
+                }
+            </script>
+        </body>
+        </html>`;
+    }
+
+    private getQuizHistoryStyles(): string {
+        return `
+            .history-attempt {
+                margin-bottom: 16px;
+            }
+
+            .history-attempt summary {
+                display: flex;
+                align-items: baseline;
+                flex-wrap: wrap;
+                gap: 12px;
+                cursor: pointer;
+            }
+
+            .history-title {
+                font-weight: 600;
+            }
+
+            .history-meta {
+                opacity: 0.7;
+                font-size: 0.85rem;
+            }
+
+            .history-score {
+                min-width: 3.5em;
+                padding: 2px 8px;
+                border-radius: 10px;
+                text-align: center;
+                font-weight: 600;
+                font-size: 0.85rem;
+            }
+
+            .history-score.good {
+                background: rgba(16, 185, 129, 0.2);
+                color: var(--success-color);
+            }
+
+            .history-score.partial {
+                background: rgba(245, 158, 11, 0.2);
+                color: var(--warning-color);
+            }
+
+            .history-score.low {
+                background: rgba(239, 68, 68, 0.2);
+                color: var(--error-color);
+            }
+
+            .history-questions {
+                margin: 16px 0 0 24px;
+            }
+
+            .history-questions li {
+                margin-bottom: 14px;
+            }
+
+            .history-answer {
+                display: flex;
+                align-items: flex-start;
+                gap: 10px;
+                margin-top: 6px;
+            }
+
+            .history-answer pre {
+                white-space: pre-wrap;
+                font-family: 'SF Mono', 'Monaco', 'Inconsolata', 'Roboto Mono', monospace;
+                font-size: 0.85rem;
+            }
+
+            .history-answer.unanswered,
+            .history-feedback,
+            .history-expected {
+                opacity: 0.7;
+                font-size: 0.85rem;
+                margin-top: 4px;
+            }
+
+            .history-actions {
+                display: flex;
+                gap: 10px;
+                margin-top: 12px;
+            }
+        `;
+    }
+
+    private getUsageStyles(): string {
+        return `
+            .usage-container {
+                max-width: 1200px;
+                margin: 0 auto;
+                padding: 20px;
+            }
+
+            .usage-header {
+                display: flex;
+                align-items: center;
+                gap: 16px;
+                margin-bottom: 20px;
+            }
+
+            .usage-header .header-content {
+                margin-right: auto;
+            }
+
+            .usage-card {
+                margin-bottom: 20px;
+                overflow-x: auto;
+            }
+
+            .usage-table {
+                width: 100%;
+                border-collapse: collapse;
+                font-size: 0.9rem;
+            }
+
+            .usage-table th,
+            .usage-table td {
+                padding: 8px 12px;
+                text-align: right;
+                border-bottom: 1px solid rgba(212, 175, 55, 0.15);
+                white-space: nowrap;
+            }
+
+            .usage-table th:first-child,
+            .usage-table td:first-child {
+                text-align: left;
+            }
+
+            .usage-empty,
+            .usage-note {
+                opacity: 0.7;
+            }
+
+            .usage-note {
+                font-size: 0.85rem;
+            }
+
+            .unpriced {
+                color: var(--primary-color);
+                cursor: help;
+            }
+
+            .cap-bar {
+                height: 10px;
+                border-radius: 5px;
+                background: rgba(255, 255, 255, 0.1);
+                overflow: hidden;
+                margin: 12px 0 8px;
+            }
+
+            .cap-fill {
+                height: 100%;
+                background: var(--primary-color);
+            }
+
+            .cap-fill.cap-reached {
+                background: #e74c3c;
+            }
+        `;
+    }
+
     /**
      * Modern CSS styles with glassmorphism, animations, and advanced effects
      */
@@ -1068,6 +1783,18 @@ export class UIManager {
                 transform: translateY(0);
             }
 
+            .secondary-btn {
+                min-width: 110px;
+                padding: 10px 20px;
+                background: rgba(255, 255, 255, 0.08);
+                border: 1px solid var(--glass-border);
+                color: inherit;
+            }
+
+            .secondary-btn:hover {
+                background: rgba(255, 255, 255, 0.16);
+            }
+
             .pulse {
                 animation: pulse 2s infinite;
             }
@@ -1404,6 +2131,15 @@ export class UIManager {
                 margin-bottom: 20px;
             }
 
+            .streaming-placeholder {
+                opacity: 0.6;
+                font-style: italic;
+            }
+
+            .explanation-header .secondary-btn {
+                margin-left: auto;
+            }
+
 
             .card-header {
                 display: flex;
@@ -1425,6 +2161,66 @@ export class UIManager {
                 font-size: 1rem;
                 line-height: 1.6;
                 opacity: 0.9;
+                white-space: pre-line;
+            }
+
+            /* Follow-up Questions */
+            .clarify-card {
+                padding: 22px;
+                margin-top: 20px;
+            }
+
+            .clarify-clear {
+                margin-left: auto;
+            }
+
+            .clarify-input-row {
+                display: flex;
+                gap: 12px;
+                align-items: stretch;
+            }
+
+            .clarify-input {
+                flex: 1;
+                padding: 12px 14px;
+                background: rgba(255, 255, 255, 0.05);
+                border: 1px solid var(--glass-border);
+                border-radius: 12px;
+                color: inherit;
+                font: inherit;
+                resize: vertical;
+            }
+
+            .clarify-input:focus {
+                outline: none;
+                border-color: var(--primary-color);
+            }
+
+            .clarify-results {
+                display: flex;
+                flex-direction: column;
+                gap: 10px;
+                margin-top: 16px;
+            }
+
+            .clarify-item {
+                padding: 12px 16px;
+                border-radius: 12px;
+                line-height: 1.6;
+                background: rgba(255, 255, 255, 0.05);
+                border: 1px solid var(--glass-border);
+            }
+
+            .clarify-item.user {
+                align-self: flex-end;
+                max-width: 80%;
+                background: rgba(212, 175, 55, 0.15);
+                border-color: rgba(212, 175, 55, 0.3);
+            }
+
+            .clarify-item.ai {
+                align-self: stretch;
+                background: rgba(255, 255, 255, 0.08);
             }
 
             /* Stats Dashboard */
@@ -1526,6 +2322,83 @@ export class UIManager {
                 gap: 10px;
             }
 
+            .section-toolbar {
+                display: flex;
+                justify-content: flex-end;
+                gap: 10px;
+            }
+
+            .explanation-section {
+                background: var(--glass-bg);
+                border: 1px solid var(--glass-border);
+                border-radius: 16px;
+            }
+
+            .explanation-section-header {
+                display: flex;
+                flex-wrap: wrap;
+                align-items: center;
+                gap: 10px;
+                padding: 16px 18px;
+                cursor: pointer;
+                list-style: none;
+            }
+
+            .explanation-section-header::-webkit-details-marker {
+                display: none;
+            }
+
+            .explanation-section-header::before {
+                content: '▸';
+                color: var(--primary-color);
+                transition: transform 0.2s ease;
+            }
+
+            .explanation-section[open] > .explanation-section-header::before {
+                transform: rotate(90deg);
+            }
+
+            .section-kind-badge {
+                padding: 4px 12px;
+                border-radius: 12px;
+                font-size: 0.8rem;
+                font-weight: 500;
+                text-transform: capitalize;
+                background: rgba(212, 175, 55, 0.2);
+                color: var(--primary-color);
+                border: 1px solid rgba(212, 175, 55, 0.3);
+            }
+
+            .section-kind-badge.block {
+                background: rgba(239, 68, 68, 0.2);
+                color: var(--error-color);
+                border-color: rgba(239, 68, 68, 0.3);
+            }
+
+            .explanation-section-title {
+                font-family: 'SF Mono', 'Monaco', 'Inconsolata', 'Roboto Mono', monospace;
+                font-weight: 600;
+            }
+
+            .section-line-range {
+                margin-left: auto;
+                font-size: 0.85rem;
+                opacity: 0.7;
+            }
+
+            .explanation-section-text {
+                flex-basis: 100%;
+                line-height: 1.6;
+                opacity: 0.9;
+            }
+
+            .explanation-section-body {
+                display: flex;
+                flex-direction: column;
+                gap: 10px;
+                padding: 0 18px 18px 30px;
+            }
+
             .line-explanation-card {
                 padding: 18px;
                 cursor: pointer;
@@ -1718,6 +2591,13 @@ export class UIManager {
                 animateStatsCounters();
             });
 
+            function regenerateQuiz() {
+                const btn = document.getElementById('regenerateBtn');
+                btn.disabled = true;
+                btn.querySelector('.btn-text').textContent = 'Regenerating…';
+                vscode.postMessage({ command: 'regenerateQuiz' });
+            }
+
             // Listen for AI evaluation results from the extension
             window.addEventListener('message', (event) => {
                 const message = event.data || {};
@@ -1899,6 +2779,8 @@ export class UIManager {
                         requirement: question.requirement 
                     });
                 } else {
+                    // Recorded in the quiz history by the extension
+                    vscode.postMessage({ command: 'submitAnswer', questionId, answer: userAnswer });
                     // Simulate processing time for better UX
                     await new Promise(resolve => setTimeout(resolve, 500));
                     const isCorrect = userAnswer.toLowerCase() === question.correctAnswer.toLowerCase();
@@ -1979,6 +2861,43 @@ export class UIManager {
                             \`).join('')}
                         </div>
                     \`;
+                } else if (question.type === 'code-modification') {
+                    optionsHTML = \`
+                        <div class="code-modification-container">
+                            \${question.startingCode ? \`
+                                <div class="starting-code-container">
+                                    <div class="code-header">
+                                        <div class="code-dots">
+                                            <span class="dot red"></span>
+                                            <span class="dot yellow"></span>
+                                            <span class="dot green"></span>
+                                        </div>
+                                        <span class="code-title">Starting Code</span>
+                                    </div>
+                                    <pre class="code-snippet"><code>\${escapeHtml(question.startingCode)}</code></pre>
+                                </div>
+                            \` : ''}
+                            
+                            \${question.requirement ? \`
+                                <div class="requirement-container">
+                                    <div class="requirement-header">
+                                        <span class="requirement-icon">🎯</span>
+                                        <span class="requirement-title">Requirement</span>
+                                    </div>
+                                    <div class="requirement-text">\${question.requirement}</div>
+                                </div>
+                            \` : ''}
+                            
+                            <div class="code-input-container">
+                                <div class="code-input-header">
+                                    <span class="code-input-icon">✏️</span>
+                                    <span class="code-input-title">Your Modified Code</span>
+                                </div>
+                                <textarea class="code-textarea" id="codeAnswer" placeholder="Paste your modified code here..." rows="10"></textarea>
+                                <div class="input-focus-line"></div>
+                            </div>
+                        </div>
+                    \`;
                 } else {
                     optionsHTML = \`
                         <div class="text-input-container">
@@ -2216,25 +3135,107 @@ export class UIManager {
             document.addEventListener('DOMContentLoaded', function() {
                 animateStatsCounters();
                 setupIntersectionObserver();
+                setupClarifyBox();
+                vscode.postMessage({ command: 'clarifyReady' });
+            });
+
+            // Streaming updates from the extension
+            window.addEventListener('message', event => {
+                const message = event.data || {};
+                const overview = document.getElementById('overviewText');
+                const lines = document.getElementById('lineExplanations');
+                switch (message.command) {
+                    case 'explanationTitle':
+                        document.getElementById('explanationTitle').textContent = message.text;
+                        break;
+                    case 'explanationOverview':
+                        overview.textContent = message.text;
+                        overview.classList.remove('streaming-placeholder');
+                        break;
+                    case 'explanationLine':
+                        lines.insertAdjacentHTML('beforeend', message.html);
+                        break;
+                    case 'explanationComplete':
+                        document.getElementById('explanationTitle').textContent = message.title;
+                        overview.textContent = message.overview;
+                        overview.classList.remove('streaming-placeholder');
+                        lines.innerHTML = message.html;
+                        finishStreaming('Deep dive into your code');
+                        break;
+                    case 'explanationCancelled':
+                        finishStreaming('Explanation cancelled');
+                        break;
+                    case 'explanationError':
+                        finishStreaming('Explanation failed');
+                        showNotification('Explanation failed: ' + message.error, 'warning');
+                        break;
+                    case 'revealLine':
+                        // The cursor moved in the source document
+                        showLine(message.lineNumber);
+                        break;
+                }
             });
+
+            function cancelExplanation() {
+                const btn = document.getElementById('cancelBtn');
+                if (btn) {
+                    btn.disabled = true;
+                    btn.querySelector('.btn-text').textContent = 'Cancelling…';
+                }
+                vscode.postMessage({ command: 'cancelExplanation' });
+            }
+
+            function regenerateExplanation() {
+                vscode.postMessage({ command: 'regenerate' });
+            }
+
+            function finishStreaming(subtitle) {
+                const btn = document.getElementById('cancelBtn');
+                if (btn) {
+                    btn.remove();
+                }
+                const regenerateBtn = document.getElementById('regenerateBtn');
+                if (regenerateBtn) {
+                    regenerateBtn.style.display = '';
+                }
+                document.getElementById('headerSubtitle').textContent = subtitle;
+            }
             
+            function toggleSections(open) {
+                document.querySelectorAll('.explanation-section').forEach(section => section.open = open);
+            }
+
             function highlightLine(lineNumber) {
+                showLine(lineNumber);
+                
+                // Reveal the line in the editor the code came from
+                vscode.postMessage({
+                    command: 'highlightLine',
+                    lineNumber: lineNumber
+                });
+            }
+
+            function showLine(lineNumber) {
                 // Add highlight effect
                 const cards = document.querySelectorAll('.line-explanation-card');
                 cards.forEach(card => card.classList.remove('highlighted'));
                 
-                const targetCard = document.querySelector(\`[onclick="highlightLine(\${lineNumber})"]\`);
+                // Not every line has a card, so fall back to the closest one above it
+                let targetCard;
+                cards.forEach(card => {
+                    const line = Number(card.dataset.line);
+                    if (line <= lineNumber && (!targetCard || line >= Number(targetCard.dataset.line))) {
+                        targetCard = card;
+                    }
+                });
                 if (targetCard) {
+                    // Open the sections around the card so it can be seen
+                    for (let section = targetCard.closest('details'); section; section = section.parentElement.closest('details')) {
+                        section.open = true;
+                    }
                     targetCard.classList.add('highlighted');
                     targetCard.scrollIntoView({ behavior: 'smooth', block: 'center' });
                 }
-                
-                vscode.postMessage({
-                    command: 'highlightLine',
-                    lineNumber: lineNumber
-                });
-                
-                showNotification(\`Line \${lineNumber} highlighted in editor\`, 'info');
             }
             
             
@@ -2312,7 +3313,7 @@ export class UIManager {
                     try {
                         console.log('Sending message to extension...');
                         vscode.postMessage({ command: 'clarify', question });
-                        // Fallback timeout to restore button state and show error if no response
+                        // Fallback timeout in case the extension never acknowledges the question
                         pendingTimer = setTimeout(() => {
                             btn.querySelector('.btn-loading').style.opacity = '0';
                             btn.querySelector('.btn-text').style.opacity = '1';
@@ -2352,7 +3353,7 @@ export class UIManager {
                         const pct = Math.round((Number(result.score) || 0) * 100);
                         const verdict = String(result.verdict || '').toUpperCase();
                         const text = String(result.feedback || '');
-                        feedback.innerHTML = '<strong>Evaluation:</strong> ' + verdict + ' (score ' + pct + '%)<br/>' + text.replace(/\n/g,'<br/>');
+                        feedback.innerHTML = '<strong>Evaluation:</strong> ' + verdict + ' (score ' + pct + '%)<br/>' + text.replace(/\\n/g,'<br/>');
                         const exp = document.getElementById('explanation-' + questionId);
                         if (exp) {
                             exp.appendChild(feedback);
@@ -2363,7 +3364,23 @@ export class UIManager {
                         return;
                     }
                     if (message.command === 'clarifyAck') {
-                        // Can add any additional UX here if needed
+                        // The answer is on its way; AI replies may take longer than the fallback timeout
+                        if (pendingTimer) {
+                            clearTimeout(pendingTimer);
+                            pendingTimer = null;
+                        }
+                        return;
+                    }
+                    if (message.command === 'clarifyHistory') {
+                        results.innerHTML = '';
+                        (message.turns || []).forEach(turn => {
+                            const asked = document.createElement('div');
+                            asked.className = 'clarify-item user';
+                            asked.textContent = turn.question;
+                            results.prepend(asked);
+                            asked.insertAdjacentElement('afterend', renderClarifyAnswer(turn.answer));
+                        });
+                        document.getElementById('clarifyClearBtn').style.display = (message.turns || []).length > 0 ? '' : 'none';
                         return;
                     }
                     if (message.command === 'clarifyResult') {
@@ -2384,24 +3401,31 @@ export class UIManager {
                             return;
                         }
                         let item = document.getElementById(lastPendingId);
-                        // Convert pending user bubble to AI bubble below it
+                        // Add the AI bubble below the pending user bubble
                         if (item) {
-                            const ai = document.createElement('div');
-                            ai.className = 'clarify-item ai';
-                            ai.innerHTML = String(message.answer || '').replace(/\n/g, '<br/>');
-                            item.insertAdjacentElement('afterend', ai);
+                            item.insertAdjacentElement('afterend', renderClarifyAnswer(message.answer));
                         } else {
-                            const ai = document.createElement('div');
-                            ai.className = 'clarify-item ai';
-                            ai.innerHTML = String(message.answer || '').replace(/\n/g, '<br/>');
-                            results.prepend(ai);
+                            results.prepend(renderClarifyAnswer(message.answer));
                         }
+                        document.getElementById('clarifyClearBtn').style.display = '';
                         input.value = '';
                     }
                 });
             }
             
             
+            function renderClarifyAnswer(answer) {
+                const ai = document.createElement('div');
+                ai.className = 'clarify-item ai';
+                ai.textContent = String(answer || '');
+                ai.innerHTML = ai.innerHTML.replace(/\\n/g, '<br/>');
+                return ai;
+            }
+
+            function clearClarifyHistory() {
+                vscode.postMessage({ command: 'clarifyClear' });
+            }
+            
             function showNotification(message, type = 'info') {
                 const notification = document.createElement('div');
                 notification.className = \`notification \${type}\`;
@@ -2437,29 +3461,34 @@ export class UIManager {
     }
 
     // Keep existing helper methods
-    private handleQuizAnswer(panel: vscode.WebviewPanel, questionId: string, answer: string, quiz: Quiz): void {
+    private handleQuizAnswer(panel: vscode.WebviewPanel, questionId: string, answer: string, attempt: QuizAttempt): void {
+        const quiz = attempt.quiz;
         const question = quiz.questions.find(q => q.id === questionId);
         if (!question) {
             return;
         }
         console.log(`User answered question ${questionId}: ${answer}`);
-        if (question.type === 'open-ended') {
+        if (question.type === 'multiple-choice') {
+            // Graded in the webview already; only recorded here
+            const score = answer.toLowerCase() === question.correctAnswer.toLowerCase() ? 1 : 0;
+            this.recordQuizAnswer(attempt, { questionId, answer, score, answeredAt: Date.now() });
+        } else if (question.type === 'open-ended') {
             const codeSnippet = question.codeSnippet || '';
-            const detectedLanguage = this.detectLanguage(codeSnippet);
-            const aiServiceModule = require('./aiService');
-            const aiService = new aiServiceModule.AIService();
-            aiService.evaluateShortAnswer({
+            // Snippets belong to the quiz's code, so they share its language
+            const detectedLanguage = quiz.language ?? guessLanguage(codeSnippet).name;
+            this.aiService.evaluateShortAnswer({
                 question: question.question,
                 correctAnswer: question.correctAnswer,
                 userAnswer: answer,
                 codeSnippet,
                 language: detectedLanguage
-            }).then((result: any) => {
+            }).then(result => {
                 panel.webview.postMessage({
                     command: 'shortAnswerEvaluation',
                     questionId,
                     result
                 });
+                this.recordQuizAnswer(attempt, { questionId, answer, score: result.score, feedback: result.feedback, answeredAt: Date.now() });
             }).catch((err: any) => {
                 panel.webview.postMessage({
                     command: 'shortAnswerEvaluation',
@@ -2479,8 +3508,9 @@ export class UIManager {
         userCode: string, 
         originalCode: string, 
         requirement: string, 
-        quiz: Quiz
+        attempt: QuizAttempt
     ): void {
+        const quiz = attempt.quiz;
         const question = quiz.questions.find(q => q.id === questionId);
         if (!question) {
             return;
@@ -2491,22 +3521,21 @@ export class UIManager {
         console.log('Requirement:', requirement);
         console.log('User code:', userCode.substring(0, 100) + '...');
         
-        const detectedLanguage = this.detectLanguage(originalCode + '\n' + userCode);
+        const detectedLanguage = quiz.language ?? guessLanguage(originalCode + '\n' + userCode).name;
         console.log('Detected language:', detectedLanguage);
-        const aiServiceModule = require('./aiService');
-        const aiService = new aiServiceModule.AIService();
         
-        aiService.evaluateCodeModification({
+        this.aiService.evaluateCodeModification({
             originalCode,
             requirement,
             userModifiedCode: userCode,
             language: detectedLanguage
-        }).then((result: any) => {
+        }).then(result => {
             panel.webview.postMessage({
                 command: 'codeModificationEvaluation',
                 questionId,
                 result
             });
+            this.recordQuizAnswer(attempt, { questionId, answer: userCode, score: result.score, feedback: result.feedback, answeredAt: Date.now() });
         }).catch((err: any) => {
             panel.webview.postMessage({
                 command: 'codeModificationEvaluation',
@@ -2522,6 +3551,14 @@ export class UIManager {
         });
     }
 
+    /**
+     * Store a graded answer; failed evaluations are not recorded, so the question can be answered again
+     */
+    private recordQuizAnswer(attempt: QuizAttempt, answer: QuizAnswer): void {
+        this.quizHistory?.recordAnswer(attempt, answer)
+            .catch(error => console.warn('Failed to record quiz answer:', error));
+    }
+
     private showNextQuestion(panel: vscode.WebviewPanel, questionIndex: number, quiz: Quiz): void {
         if (questionIndex < quiz.questions.length) {
             console.log(`Showing question ${questionIndex + 1}`);
@@ -2537,139 +3574,18 @@ export class UIManager {
             .replace(/'/g, '&#39;');
     }
 
-    /**
-     * Detect programming language from code content
-     * Enhanced detection with support for multiple languages
-     */
-    private detectLanguage(code: string): string {
-        if (!code || !code.trim()) {
-            return 'JavaScript'; // Default fallback
-        }
-
-        const codeNormalized = code.toLowerCase().trim();
-        
-        // Python patterns
-        if (codeNormalized.includes('def ') || 
-            codeNormalized.includes('import ') || 
-            codeNormalized.includes('from ') ||
-            codeNormalized.includes('print(') ||
-            /^\s*#/.test(code) || // Comments starting with #
-            codeNormalized.includes('__init__') ||
-            codeNormalized.includes('elif ')) {
-            return 'Python';
-        }
-        
-        // Java patterns
-        if (codeNormalized.includes('public class') || 
-            codeNormalized.includes('private ') ||
-            codeNormalized.includes('public static void main') ||
-            codeNormalized.includes('system.out.println') ||
-            codeNormalized.includes('extends ') ||
-            codeNormalized.includes('implements ') ||
-            codeNormalized.includes('package ')) {
-            return 'Java';
-        }
-        
-        // C# patterns
-        if (codeNormalized.includes('using system') ||
-            codeNormalized.includes('namespace ') ||
-            codeNormalized.includes('console.writeline') ||
-            codeNormalized.includes('public static void main')) {
-            return 'C#';
-        }
-        
-        // C/C++ patterns
-        if (codeNormalized.includes('#include') ||
-            codeNormalized.includes('int main(') ||
-            codeNormalized.includes('printf(') ||
-            codeNormalized.includes('cout <<') ||
-            codeNormalized.includes('std::')) {
-            return 'C++';
-        }
-        
-        // TypeScript patterns (check before JavaScript)
-        if (codeNormalized.includes('interface ') ||
-            codeNormalized.includes('type ') ||
-            codeNormalized.includes(': string') ||
-            codeNormalized.includes(': number') ||
-            codeNormalized.includes('export interface') ||
-            codeNormalized.includes('implements ')) {
-            return 'TypeScript';
-        }
-        
-        // JavaScript patterns
-        if (codeNormalized.includes('function') || 
-            codeNormalized.includes('const ') || 
-            codeNormalized.includes('let ') ||
-            codeNormalized.includes('var ') ||
-            codeNormalized.includes('console.log') ||
-            codeNormalized.includes('=>') || // Arrow functions
-            codeNormalized.includes('document.') ||
-            codeNormalized.includes('window.') ||
-            codeNormalized.includes('require(') ||
-            codeNormalized.includes('import ') && codeNormalized.includes('from ')) {
-            return 'JavaScript';
-        }
-        
-        // Go patterns
-        if (codeNormalized.includes('package main') ||
-            codeNormalized.includes('func ') ||
-            codeNormalized.includes('import (') ||
-            codeNormalized.includes('fmt.print')) {
-            return 'Go';
-        }
-        
-        // Rust patterns
-        if (codeNormalized.includes('fn main') ||
-            codeNormalized.includes('println!') ||
-            codeNormalized.includes('use std::') ||
-            codeNormalized.includes('let mut ')) {
-            return 'Rust';
-        }
-        
-        // PHP patterns
-        if (codeNormalized.includes('<?php') ||
-            codeNormalized.includes('echo ') ||
-            codeNormalized.includes('$') && codeNormalized.includes(';')) {
-            return 'PHP';
-        }
-        
-        // Ruby patterns
-        if (codeNormalized.includes('puts ') ||
-            codeNormalized.includes('require ') ||
-            codeNormalized.includes('class ') && codeNormalized.includes('end') ||
-            codeNormalized.includes('def ') && codeNormalized.includes('end')) {
-            return 'Ruby';
-        }
-        
-        // Swift patterns
-        if (codeNormalized.includes('import swift') ||
-            codeNormalized.includes('var ') && codeNormalized.includes(': ') ||
-            codeNormalized.includes('func ') && codeNormalized.includes('->') ||
-            codeNormalized.includes('print(')) {
-            return 'Swift';
-        }
-        
-        // Kotlin patterns
-        if (codeNormalized.includes('fun main') ||
-            codeNormalized.includes('println(') ||
-            codeNormalized.includes('val ') ||
-            codeNormalized.includes('class ') && codeNormalized.includes('{')) {
-            return 'Kotlin';
-        }
-        
-        return 'JavaScript'; // Default fallback
-    }
-
     /**
      * Generate modern HTML for poke modal
      */
-    private generatePokeModalHTML(clipboardText: string): string {
+    private generatePokeModalHTML(clipboardText: string, language: DetectedLanguage): string {
         const codePreview = clipboardText.length > 200 
             ? clipboardText.substring(0, 200) + '...'
             : clipboardText;
         
-        const detectedLanguage = this.detectLanguage(clipboardText);
+        const detectedLanguage = this.escapeHtml(language.name);
+        // A weak guess from the content is flagged rather than stated as fact
+        const uncertain = language.confidence < 0.5;
+        const languageSummary = uncertain ? `code (possibly ${detectedLanguage})` : `${detectedLanguage} code`;
         
         return `
         <!DOCTYPE html>
@@ -2688,12 +3604,12 @@ export class UIManager {
                     <div class="header">
                         <div class="icon">🧠</div>
                         <h1>Code Detected!</h1>
-                        <p class="subtitle">Found ${clipboardText.length} characters of ${detectedLanguage} code in your clipboard</p>
+                        <p class="subtitle">Found ${clipboardText.length} characters of ${languageSummary} in your clipboard</p>
                     </div>
                     
                     <div class="code-preview">
                         <div class="preview-header">
-                            <span class="language-tag">${detectedLanguage}</span>
+                            <span class="language-tag" title="${this.escapeHtml(describeDetection(language))}">${detectedLanguage}${uncertain ? '?' : ''}</span>
                             <span class="size-tag">${clipboardText.length} chars</span>
                         </div>
                         <pre><code>${this.escapeHtml(codePreview)}</code></pre>
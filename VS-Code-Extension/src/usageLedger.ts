@@ -0,0 +1,248 @@
+/**
+ * Usage Ledger Module
+ *
+ * Records every AI provider call (task, model, token counts, latency, cache hits and
+ * fallbacks) as JSON Lines in the extension's global storage. Records are summarized
+ * per day and per task with an estimated cost from the user-editable `usagePrices`
+ * table, and the current month's token total is checked against `monthlyTokenCap`.
+ */
+
+import * as vscode from 'vscode';
+import { AITask } from './aiProvider';
+
+export type UsageOutcome = 'success' | 'error' | 'cancelled' | 'fallback';
+
+export interface UsageRecord {
+    timestamp: number;
+    task: AITask;
+    provider?: string;
+    model?: string;
+    promptTokens: number;
+    completionTokens: number;
+    estimated?: boolean; // Token counts were estimated because the provider reported none
+    latency: number; // Milliseconds
+    cached: boolean;
+    outcome: UsageOutcome;
+}
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+export interface UsageTotals {
+    calls: number;
+    promptTokens: number;
+    completionTokens: number;
+    cost: number; // Estimated, USD
+    unpriced: number; // Calls whose model has no entry in the price table
+    cacheHits: number;
+    fallbacks: number;
+    errors: number;
+    latency: number; // Total milliseconds spent on provider calls
+}
+
+export interface UsageSummary {
+    days: Array<UsageTotals & { day: string }>; // Newest first
+    tasks: Array<UsageTotals & { task: AITask }>;
+    month: UsageTotals;
+    monthlyTokenCap: number; // 0 means no cap
+}
+
+interface UsageSettings {
+    monthlyTokenCap: number;
+    prices: Record<string, ModelPrice>;
+}
+
+const LEDGER_FILE = 'usage-ledger.jsonl';
+const RETENTION_DAYS = 90;
+
+export class UsageLedger {
+    private records?: UsageRecord[];
+    private loading?: Promise<UsageRecord[]>;
+    private writing: Promise<void> = Promise.resolve();
+    private fileUri: vscode.Uri;
+
+    constructor(private storageUri: vscode.Uri) {
+        this.fileUri = vscode.Uri.joinPath(storageUri, LEDGER_FILE);
+    }
+
+    async record(entry: Omit<UsageRecord, 'timestamp'>): Promise<void> {
+        const records = await this.load();
+        records.push({ timestamp: Date.now(), ...entry });
+        await this.save();
+    }
+
+    /**
+     * Prompt and completion tokens used since the start of the current month
+     */
+    async monthlyTokens(): Promise<number> {
+        const monthStart = this.monthStart();
+        const records = await this.load();
+        return records
+            .filter(record => record.timestamp >= monthStart)
+            .reduce((sum, record) => sum + record.promptTokens + record.completionTokens, 0);
+    }
+
+    /**
+     * Whether this month's usage has reached `monthlyTokenCap`
+     */
+    async capReached(): Promise<boolean> {
+        const cap = this.settings().monthlyTokenCap;
+        return cap > 0 && await this.monthlyTokens() >= cap;
+    }
+
+    async summarize(): Promise<UsageSummary> {
+        const settings = this.settings();
+        const records = await this.load();
+        const monthStart = this.monthStart();
+        const days = new Map<string, UsageTotals & { day: string }>();
+        const tasks = new Map<AITask, UsageTotals & { task: AITask }>();
+        const month = this.emptyTotals();
+
+        for (const record of records) {
+            const day = this.dayKey(record.timestamp);
+            if (!days.has(day)) {
+                days.set(day, { day, ...this.emptyTotals() });
+            }
+            if (!tasks.has(record.task)) {
+                tasks.set(record.task, { task: record.task, ...this.emptyTotals() });
+            }
+
+            this.add(days.get(day)!, record, settings.prices);
+            this.add(tasks.get(record.task)!, record, settings.prices);
+            if (record.timestamp >= monthStart) {
+                this.add(month, record, settings.prices);
+            }
+        }
+
+        return {
+            days: [...days.values()].sort((a, b) => b.day.localeCompare(a.day)),
+            tasks: [...tasks.values()].sort((a, b) => b.calls - a.calls),
+            month,
+            monthlyTokenCap: settings.monthlyTokenCap
+        };
+    }
+
+    async clear(): Promise<void> {
+        const records = await this.load();
+        records.length = 0;
+        await this.save();
+    }
+
+    /**
+     * Price of a model: an exact entry, else the longest entry the model name starts
+     * with (so `gpt-4o-mini-2024-07-18` uses the `gpt-4o-mini` price)
+     */
+    private priceOf(model: string | undefined, prices: Record<string, ModelPrice>): ModelPrice | undefined {
+        if (!model) {
+            return undefined;
+        }
+        if (prices[model]) {
+            return prices[model];
+        }
+        const prefix = Object.keys(prices)
+            .filter(name => model.startsWith(name))
+            .sort((a, b) => b.length - a.length)[0];
+        return prefix ? prices[prefix] : undefined;
+    }
+
+    private add(totals: UsageTotals, record: UsageRecord, prices: Record<string, ModelPrice>): void {
+        totals.calls++;
+        totals.promptTokens += record.promptTokens;
+        totals.completionTokens += record.completionTokens;
+        totals.latency += record.latency;
+        totals.cacheHits += record.cached ? 1 : 0;
+        totals.fallbacks += record.outcome === 'fallback' ? 1 : 0;
+        totals.errors += record.outcome === 'error' ? 1 : 0;
+
+        if (record.promptTokens + record.completionTokens === 0) {
+            return; // Cache hits and fallbacks cost nothing
+        }
+        const price = this.priceOf(record.model, prices);
+        if (price) {
+            totals.cost += (record.promptTokens * price.input + record.completionTokens * price.output) / 1_000_000;
+        } else {
+            totals.unpriced++;
+        }
+    }
+
+    private emptyTotals(): UsageTotals {
+        return { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpriced: 0, cacheHits: 0, fallbacks: 0, errors: 0, latency: 0 };
+    }
+
+    private dayKey(timestamp: number): string {
+        const date = new Date(timestamp);
+        const pad = (value: number) => String(value).padStart(2, '0');
+        return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    }
+
+    private monthStart(): number {
+        const now = new Date();
+        return new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+    }
+
+    private settings(): UsageSettings {
+        const config = vscode.workspace.getConfiguration('codeQuizExplainer');
+        return {
+            monthlyTokenCap: Math.max(0, config.get<number>('monthlyTokenCap', 0)),
+            prices: config.get<Record<string, ModelPrice>>('usagePrices', {})
+        };
+    }
+
+    private async load(): Promise<UsageRecord[]> {
+        if (this.records) {
+            return this.records;
+        }
+        if (!this.loading) {
+            this.loading = this.readFile().then(records => this.records = records);
+        }
+        return this.loading;
+    }
+
+    private async readFile(): Promise<UsageRecord[]> {
+        let text: string;
+        try {
+            text = Buffer.from(await vscode.workspace.fs.readFile(this.fileUri)).toString('utf8');
+        } catch {
+            return []; // No usage recorded yet
+        }
+
+        const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+        const records: UsageRecord[] = [];
+        for (const line of text.split('\n')) {
+            if (!line.trim()) {
+                continue;
+            }
+            try {
+                const record = JSON.parse(line) as UsageRecord;
+                if (record.timestamp >= cutoff) {
+                    records.push(record);
+                }
+            } catch {
+                // Skip lines damaged by an interrupted write
+            }
+        }
+        return records;
+    }
+
+    private save(): Promise<void> {
+        // Writes are chained so concurrent records never interleave
+        this.writing = this.writing.then(async () => {
+            if (!this.records) {
+                return;
+            }
+            try {
+                await vscode.workspace.fs.createDirectory(this.storageUri);
+                const data = this.records.map(record => JSON.stringify(record) + '\n').join('');
+                await vscode.workspace.fs.writeFile(this.fileUri, Buffer.from(data, 'utf8'));
+            } catch (error) {
+                console.warn('Failed to persist usage ledger:', error);
+            }
+        });
+        return this.writing;
+    }
+}